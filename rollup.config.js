@@ -21,6 +21,26 @@ export default [
         external: [],
         plugins: [commonjs(), typescript()],
     },
+    {
+        input: 'src/node.ts',
+        output: {
+            file: 'dist/node.js',
+            format: 'cjs',
+            sourcemap: true,
+        },
+        external: ['crypto', 'fs', 'http'],
+        plugins: [commonjs(), typescript()],
+    },
+    {
+        input: 'src/server.ts',
+        output: {
+            file: 'dist/server.js',
+            format: 'cjs',
+            sourcemap: true,
+        },
+        external: ['crypto', 'fs', 'http'],
+        plugins: [commonjs(), typescript()],
+    },
     {
         input: 'src/index.ts',
         output: {
@@ -30,4 +50,13 @@ export default [
         external: [],
         plugins: [dts()],
     },
+    {
+        input: 'src/node.ts',
+        output: {
+            file: 'dist/node.d.ts',
+            format: 'es',
+        },
+        external: ['crypto', 'fs', 'http', 'stream'],
+        plugins: [dts()],
+    },
 ];
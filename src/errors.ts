@@ -0,0 +1,27 @@
+import { ApiResponseError } from './todo-api';
+import { FieldError } from './validation';
+
+export function buildErrorResponse(code: number, description: string): ApiResponseError {
+    return {
+        error: {
+            code,
+            description,
+        },
+    };
+}
+
+/**
+ * A 422 error listing the fields of the payload that failed validation
+ */
+export function buildValidationErrorResponse(fields: FieldError[]): ApiResponseError {
+    const response = buildErrorResponse(422, 'invalid payload');
+    response.error.fields = fields;
+    return response;
+}
+
+/**
+ * Tells an ApiResponseError from another rejection reason
+ */
+export function isApiResponseError(value: unknown): value is ApiResponseError {
+    return typeof value === 'object' && value !== null && 'error' in value;
+}
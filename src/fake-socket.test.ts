@@ -0,0 +1,157 @@
+import { ConnectionState, createFakeSocket, RawMessage, SequenceGap, SocketMessage } from './fake-socket';
+import { createVirtualScheduler } from './scheduler';
+
+function rename(name: string): RawMessage {
+    return { type: 'renameList', message: { listIndex: 0, listId: 'l1', name, listVersion: 1 } };
+}
+
+function sequenceIds(client: jest.Mock<void, [SocketMessage]>): number[] {
+    return client.mock.calls.map(([message]) => message.sequenceId);
+}
+
+describe('FakeSocket', () => {
+    describe('history', () => {
+        it('replays the messages dispatched after sinceSequenceId, then streams the live ones', () => {
+            const socket = createFakeSocket();
+            ['a', 'b', 'c'].forEach((name) => socket.dispatchMessage(rename(name)));
+            const client = jest.fn<void, [SocketMessage]>();
+            const onGap = jest.fn();
+            socket.addListener(client, { sinceSequenceId: 1, onGap });
+            socket.dispatchMessage(rename('d'));
+            expect(sequenceIds(client)).toEqual([2, 3, 4]);
+            expect(onGap).not.toHaveBeenCalled();
+        });
+
+        it('only streams the messages dispatched after the listener was added by default', () => {
+            const socket = createFakeSocket();
+            socket.dispatchMessage(rename('a'));
+            const client = jest.fn<void, [SocketMessage]>();
+            socket.addListener(client);
+            socket.dispatchMessage(rename('b'));
+            expect(sequenceIds(client)).toEqual([2]);
+        });
+
+        it('keeps the last historySize messages', () => {
+            const socket = createFakeSocket({ historySize: 2 });
+            ['a', 'b', 'c'].forEach((name) => socket.dispatchMessage(rename(name)));
+            expect(socket.getHistory().map((message) => message.sequenceId)).toEqual([2, 3]);
+            expect(socket.lastSequenceId).toBe(3);
+        });
+
+        it('reports a gap before replaying what is left of a truncated history', () => {
+            const socket = createFakeSocket({ historySize: 2 });
+            ['a', 'b', 'c', 'd'].forEach((name) => socket.dispatchMessage(rename(name)));
+            const events: (number | SequenceGap)[] = [];
+            socket.addListener((message) => events.push(message.sequenceId), {
+                sinceSequenceId: 1,
+                onGap: (gap) => events.push(gap),
+            });
+            expect(events).toEqual([{ requestedSequenceId: 1, oldestAvailableSequenceId: 3 }, 3, 4]);
+        });
+
+        it('does not report a gap when only messages already received were evicted', () => {
+            const socket = createFakeSocket({ historySize: 2 });
+            ['a', 'b', 'c', 'd'].forEach((name) => socket.dispatchMessage(rename(name)));
+            const client = jest.fn<void, [SocketMessage]>();
+            const onGap = jest.fn();
+            socket.addListener(client, { sinceSequenceId: 2, onGap });
+            expect(sequenceIds(client)).toEqual([3, 4]);
+            expect(onGap).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('connection', () => {
+        it('opens after connectDelay, and then replays the messages dispatched while connecting', () => {
+            const scheduler = createVirtualScheduler();
+            const socket = createFakeSocket({ scheduler });
+            const client = jest.fn<void, [SocketMessage]>();
+            const states: ConnectionState[] = [];
+            socket.addListener(client, { connectDelay: 100, onStateChange: (state) => states.push(state) });
+            socket.dispatchMessage(rename('a'));
+            scheduler.advanceBy(99);
+            expect(states).toEqual(['connecting']);
+            expect(client).not.toHaveBeenCalled();
+            scheduler.advanceBy(1);
+            expect(states).toEqual(['connecting', 'open']);
+            expect(sequenceIds(client)).toEqual([1]);
+        });
+
+        it('delivers nothing while disconnected, then replays the missed messages on reconnection', () => {
+            const socket = createFakeSocket();
+            const client = jest.fn<void, [SocketMessage]>();
+            socket.addListener(client);
+            socket.dispatchMessage(rename('a'));
+            socket.disconnect(client);
+            expect(socket.getConnectionState(client)).toBe('closed');
+            socket.dispatchMessage(rename('b'));
+            expect(sequenceIds(client)).toEqual([1]);
+            socket.reconnect(client);
+            expect(socket.getConnectionState(client)).toBe('open');
+            expect(sequenceIds(client)).toEqual([1, 2]);
+        });
+
+        it('resumes a reconnection from the given sequenceId', () => {
+            const socket = createFakeSocket();
+            const client = jest.fn<void, [SocketMessage]>();
+            socket.addListener(client);
+            ['a', 'b'].forEach((name) => socket.dispatchMessage(rename(name)));
+            socket.disconnectAll();
+            socket.reconnect(client, 0);
+            expect(sequenceIds(client)).toEqual([1, 2, 1, 2]);
+        });
+
+        it('replays a message still in flight when the connection was closed, but not those received after it', () => {
+            const scheduler = createVirtualScheduler();
+            // The first message is delayed by 90ms, the second by 10ms, the replayed one is not delayed
+            const values = [0.9, 0.1];
+            const socket = createFakeSocket({ scheduler, random: () => values.shift() ?? 0 });
+            const client = jest.fn<void, [SocketMessage]>();
+            socket.addListener(client, { delivery: { jitter: 100 } });
+            socket.dispatchMessage(rename('a'));
+            socket.dispatchMessage(rename('b'));
+            scheduler.advanceBy(50);
+            expect(sequenceIds(client)).toEqual([2]);
+            socket.disconnect(client);
+            scheduler.runAll();
+            socket.reconnect(client);
+            socket.dispatchMessage(rename('c'));
+            expect(sequenceIds(client)).toEqual([2, 1, 3]);
+        });
+    });
+
+    describe('delivery', () => {
+        it('delays the messages by delay, plus a random part of jitter', () => {
+            const scheduler = createVirtualScheduler();
+            const socket = createFakeSocket({ scheduler, random: () => 0.5 });
+            const client = jest.fn<void, [SocketMessage]>();
+            socket.addListener(client, { delivery: { delay: 50, jitter: 100 } });
+            socket.dispatchMessage(rename('a'));
+            scheduler.advanceBy(99);
+            expect(client).not.toHaveBeenCalled();
+            scheduler.advanceBy(1);
+            expect(sequenceIds(client)).toEqual([1]);
+        });
+
+        it('delivers a message twice with duplicateRate', () => {
+            const values = [0.4, 0.6];
+            const socket = createFakeSocket({ random: () => values.shift() ?? 0 });
+            const client = jest.fn<void, [SocketMessage]>();
+            socket.addListener(client, { delivery: { duplicateRate: 0.5 } });
+            ['a', 'b'].forEach((name) => socket.dispatchMessage(rename(name)));
+            expect(sequenceIds(client)).toEqual([1, 1, 2]);
+        });
+
+        it('holds a message back until the next one with reorderRate, or for 100ms if none follows', () => {
+            const scheduler = createVirtualScheduler();
+            const socket = createFakeSocket({ scheduler, random: () => 0.4 });
+            const client = jest.fn<void, [SocketMessage]>();
+            socket.addListener(client, { delivery: { reorderRate: 0.5 } });
+            ['a', 'b', 'c'].forEach((name) => socket.dispatchMessage(rename(name)));
+            expect(sequenceIds(client)).toEqual([2, 1]);
+            scheduler.advanceBy(99);
+            expect(sequenceIds(client)).toEqual([2, 1]);
+            scheduler.advanceBy(1);
+            expect(sequenceIds(client)).toEqual([2, 1, 3]);
+        });
+    });
+});
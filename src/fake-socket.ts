@@ -1,4 +1,6 @@
-import { Todo, TodoList, todoApi } from "./todo-api";
+import { defaultRandom, RandomSource } from "./random";
+import { realScheduler, Scheduler, TimerHandle } from "./scheduler";
+import { Todo, TodoField, TodoList } from "./todo-api";
 
 export type CreateListMessage = {
     type: "createList";
@@ -9,6 +11,48 @@ export type DeleteListMessage = {
     type: "deleteList";
     message: {
         index: number;
+        listId: string;
+    };
+}
+
+export type RenameListMessage = {
+    type: "renameList";
+    message: {
+        listIndex: number;
+        listId: string;
+        name: string;
+        listVersion: number;
+    };
+}
+
+export type MoveListMessage = {
+    type: "moveList";
+    message: {
+        listId: string;
+        sourceIndex: number;
+        destIndex: number;
+    };
+}
+
+/**
+ * The members of a list changed. Carries the whole list, for the users who were just given access to it
+ */
+export type ListMembersMessage = {
+    type: "listMembers";
+    message: {
+        listIndex: number;
+        list: TodoList;
+    };
+}
+
+/**
+ * A deleted list put back from the trash
+ */
+export type RestoreListMessage = {
+    type: "restoreList";
+    message: {
+        index: number;
+        list: TodoList;
     };
 }
 
@@ -16,6 +60,8 @@ export type AddTodoMessage = {
     type: "addToDo";
     message: {
         listIndex: number;
+        listId: string;
+        listVersion: number;
         item: Todo;
     };
 }
@@ -24,7 +70,10 @@ export type RemoveTodoMessage = {
     type: "removeTodo";
     message: {
         listIndex: number;
+        listId: string;
         itemIndex: number;
+        itemId: string;
+        listVersion: number;
     };
 }
 
@@ -32,8 +81,44 @@ export type MoveTodoMessage = {
     type: "moveTodo";
     message: {
         listIndex: number;
+        listId: string;
+        itemId: string;
+        sourceIndex: number;
+        destIndex: number;
+        listVersion: number;
+    };
+}
+
+/**
+ * A todo moved from a list to another one. Both lists get a new version
+ */
+export type MoveTodoToListMessage = {
+    type: "moveTodoToList";
+    message: {
+        itemId: string;
+        item: Todo;
+        sourceListIndex: number;
+        sourceListId: string;
         sourceIndex: number;
+        sourceListVersion: number;
+        destListIndex: number;
+        destListId: string;
         destIndex: number;
+        destListVersion: number;
+    };
+}
+
+/**
+ * A removed todo put back from the trash
+ */
+export type RestoreTodoMessage = {
+    type: "restoreTodo";
+    message: {
+        listIndex: number;
+        listId: string;
+        itemIndex: number;
+        item: Todo;
+        listVersion: number;
     };
 }
 
@@ -41,187 +126,497 @@ export type EditTodoMessage = {
     type: "editTodo";
     message: {
         listIndex: number;
+        listId: string;
         itemIndex: number;
+        itemId: string;
         newValue: Todo;
+        changedFields: TodoField[];
     };
 }
 
-export type RawMessage = CreateListMessage | DeleteListMessage | AddTodoMessage | RemoveTodoMessage | MoveTodoMessage | EditTodoMessage;
+/**
+ * The remindAt time of a todo that is not done has passed, see TodoApi.startReminders
+ */
+export type ReminderMessage = {
+    type: "reminder";
+    message: {
+        listId: string;
+        itemId: string;
+        item: Todo;
+    };
+}
+
+/**
+ * The due date of a todo that is not done has passed, see TodoApi.startReminders
+ */
+export type OverdueMessage = {
+    type: "overdue";
+    message: {
+        listId: string;
+        itemId: string;
+        item: Todo;
+    };
+}
+
+/**
+ * The changes of a batch, applied all at once. A batch never contains another batch
+ */
+export type BatchMessage = {
+    type: "batch";
+    message: {
+        changes: RawMessage[];
+    };
+}
+
+export type RawMessage =
+    | BatchMessage
+    | CreateListMessage
+    | DeleteListMessage
+    | RenameListMessage
+    | MoveListMessage
+    | ListMembersMessage
+    | RestoreListMessage
+    | AddTodoMessage
+    | RemoveTodoMessage
+    | MoveTodoMessage
+    | MoveTodoToListMessage
+    | RestoreTodoMessage
+    | EditTodoMessage
+    | ReminderMessage
+    | OverdueMessage;
+
+/**
+ * Who caused a message: the simulated client and the request
+ */
+export type MessageOrigin = {
+    originClientId?: string;
+    correlationId?: string;
+};
 
-export type SocketMessage = RawMessage & {sequenceId: number};
+export type SocketMessage = RawMessage & MessageOrigin & {sequenceId: number};
+
+export type SocketMessageType = RawMessage["type"];
+
+/**
+ * The socket messages of a type, e.g. SocketMessageOf<"moveTodo">
+ */
+export type SocketMessageOf<K extends SocketMessageType> = Extract<SocketMessage, {type: K}>;
+
+/**
+ * Who may receive a message, and how, checked for the listeners acting for a user
+ */
+export type MessageAudience = {
+    /** The users allowed to receive the message. Everyone when not given */
+    userIds?: string[];
+    /** The message as received by some users, by userId, e.g. with indexes in the lists they may see */
+    messages?: Record<string, RawMessage>;
+    /** For a batch, the audience of each change: a listener only receives the changes it is allowed to */
+    changes?: MessageAudience[];
+};
 
 
 export type SocketClient = (message: SocketMessage) => void;
 
+/**
+ * Some messages a listener asked for are no longer in the history: it must reload its state
+ */
+export type SequenceGap = {
+    requestedSequenceId: number;
+    oldestAvailableSequenceId: number;
+};
+
+export type ConnectionState = "connecting" | "open" | "closed";
+
+/**
+ * How messages travel to a listener. Without any option they are delivered synchronously and in order
+ */
+export type DeliveryOptions = {
+    /** Milliseconds before a message reaches the listener. Defaults to 0 */
+    delay?: number;
+    /** Random extra delay between 0 and jitter milliseconds */
+    jitter?: number;
+    /** Probability between 0 and 1 that a message is delivered twice */
+    duplicateRate?: number;
+    /** Probability between 0 and 1 that a message is delivered after the one following it */
+    reorderRate?: number;
+};
+
+export type ListenerOptions = {
+    /** Replay the messages received after this sequenceId before streaming the live ones */
+    sinceSequenceId?: number;
+    /** Called before the replay when messages following sinceSequenceId have been evicted from the history */
+    onGap?: (gap: SequenceGap) => void;
+    /** Milliseconds spent connecting, when added or reconnected. Defaults to 0: open right away */
+    connectDelay?: number;
+    onStateChange?: (state: ConnectionState) => void;
+    delivery?: DeliveryOptions;
+    /** The simulated client the listener belongs to, see TodoApi.session */
+    clientId?: string;
+    /** Do not deliver the messages caused by the calls of clientId */
+    skipOwnEchoes?: boolean;
+    /** The user the listener acts for, see TodoApi.asUser: only the messages they are allowed to see are delivered */
+    userId?: string;
+};
+
+export type SubscriptionOptions = ListenerOptions & {
+    /** Only the messages about this list, see getMessageListIds */
+    listId?: string;
+};
+
+export type FakeSocketOptions = {
+    /** Number of messages kept for replay. Defaults to 100 */
+    historySize?: number;
+    /** Used for jitter, duplication and reordering */
+    random?: RandomSource;
+    /** Used for connection and delivery delays */
+    scheduler?: Scheduler;
+};
+
+type Connection = {
+    client: SocketClient;
+    options: ListenerOptions;
+    state: ConnectionState;
+    // Highest sequenceId up to which the client received every message, where a reconnection resumes
+    lastSequenceId: number;
+    // SequenceIds received after lastSequenceId, while an earlier message was still in flight
+    receivedAfterLast: Set<number>;
+    // Message waiting for the next one to be delivered first
+    heldBack: SocketMessage | undefined;
+    timers: TimerHandle[];
+};
+
+// A held back message is delivered anyway if no other message follows within this delay
+const REORDER_WINDOW = 100;
+
 class FakeSocket {
-    private clients : SocketClient[];
+    private connections: Connection[];
     private sequenceId : number;
+    private history: SocketMessage[];
+    private audiences: WeakMap<SocketMessage, MessageAudience>;
+    private readonly historySize: number;
+    private readonly random: RandomSource;
+    private readonly scheduler: Scheduler;
 
-    constructor() {
-        this.clients = [];
+    constructor(options: FakeSocketOptions = {}) {
+        this.connections = [];
         this.sequenceId = 0;
+        this.history = [];
+        this.audiences = new WeakMap();
+        this.historySize = options.historySize ?? 100;
+        this.random = options.random ?? defaultRandom;
+        this.scheduler = options.scheduler ?? realScheduler;
     }
 
-    addListener(client: SocketClient) {
-        this.clients.push(client);
+    /**
+     * The sequenceId of the last dispatched message, 0 if none was. Sequence ids start at 1
+     */
+    get lastSequenceId(): number {
+        return this.sequenceId;
+    }
+
+    /**
+     * @returns A copy of the retained messages, oldest first
+     */
+    getHistory(): SocketMessage[] {
+        return [...this.history];
+    }
+
+    addListener(client: SocketClient, options: ListenerOptions = {}) {
+        const connection: Connection = {
+            client,
+            options,
+            state: "closed",
+            lastSequenceId: options.sinceSequenceId ?? this.sequenceId,
+            receivedAfterLast: new Set(),
+            heldBack: undefined,
+            timers: [],
+        };
+        this.connections.push(connection);
+        this.connect(connection);
     }
 
     removeListener(client: SocketClient) {
-        this.clients = this.clients.filter((currentClient) => currentClient !== client);
+        this.connections
+            .filter((connection) => connection.client === client)
+            .forEach((connection) => this.clearTimers(connection));
+        this.connections = this.connections.filter((connection) => connection.client !== client);
     }
 
-    dispatchMessage(message: RawMessage) {
-        this.clients.forEach((client) => {
-            const socketMessage : SocketMessage = {sequenceId: this.sequenceId, ...message }
-            client(socketMessage);
-        })
+    /**
+     * Listens to the messages of a type. The changes of a batch are delivered one by one, with the origin and
+     * sequenceId of their batch, unless the type is "batch"
+     *
+     * @returns A function removing the subscription
+     */
+    on<K extends SocketMessageType>(
+        type: K,
+        handler: (message: SocketMessageOf<K>) => void,
+        options: SubscriptionOptions = {},
+    ): () => void {
+        const { listId, ...listenerOptions } = options;
+        const client: SocketClient = (socketMessage) => {
+            const messages: SocketMessage[] = socketMessage.type === "batch" && type !== "batch"
+                ? socketMessage.message.changes.map((change) => ({ ...socketMessage, ...change }) as SocketMessage)
+                : [socketMessage];
+            messages
+                .filter((message): message is SocketMessageOf<K> => message.type === type)
+                .filter((message) => listId === undefined || getMessageListIds(message).includes(listId))
+                .forEach((message) => handler(message));
+        };
+        this.addListener(client, listenerOptions);
+        return () => this.removeListener(client);
     }
-}
 
-class RandomActionExecutor {
+    /**
+     * @returns The state of the connection of the client, undefined if it is not a listener
+     */
+    getConnectionState(client: SocketClient): ConnectionState | undefined {
+        return this.findConnection(client)?.state;
+    }
 
-    private running: boolean;
-    private minPeriod: number; 
-    private maxPeriod: number;
-    private readonly actions = [this.moveTodo, this.addTodo, this.createList, this.deleteList, this.removeTodo];
+    /**
+     * Closes the connection of the client: messages in flight and dispatched until it reconnects are lost
+     */
+    disconnect(client: SocketClient) {
+        const connection = this.findConnection(client);
+        if (connection) {
+            this.close(connection);
+        }
+    }
 
-    constructor() {
-        this.running = false;
-        this.minPeriod = 1;
-        this.maxPeriod = 5;
+    disconnectAll() {
+        this.connections.forEach((connection) => this.close(connection));
     }
 
     /**
-     * Start randomly performing actions against the fake api
-     * 
-     * @param minPeriod minimum period in seconds between two random actions
-     * @param maxPeriod maximum period in seconds between two random actions
+     * Reopens the connection of the client and replays the messages it missed
+     *
+     * @param sinceSequenceId Where to resume. Defaults to the last message received by the client
      */
-    launch(minPeriod: number, maxPeriod: number) {
-        if (this.minPeriod < 0 || this.maxPeriod < 0 || this.minPeriod >= this.maxPeriod) {
-            throw new Error('min period must be inferior to max period and both must be positive');
+    reconnect(client: SocketClient, sinceSequenceId?: number) {
+        const connection = this.findConnection(client);
+        if (!connection || connection.state !== "closed") {
+            return;
+        }
+        if (sinceSequenceId !== undefined) {
+            connection.lastSequenceId = sinceSequenceId;
+            connection.receivedAfterLast.clear();
         }
-        this.running = true;
-        this.minPeriod = minPeriod;
-        this.maxPeriod = maxPeriod;
-        this.nextExec();
+        this.connect(connection);
     }
 
-    stop() {
-        this.running = false;
+    /**
+     * @param audience Who may receive the message. Listeners without userId receive every message
+     * @returns The sequenceId of the message
+     */
+    dispatchMessage(message: RawMessage, origin: MessageOrigin = {}, audience: MessageAudience = {}): number {
+        this.sequenceId++;
+        const socketMessage : SocketMessage = { ...message, ...origin, sequenceId: this.sequenceId };
+        this.audiences.set(socketMessage, audience);
+        this.history.push(socketMessage);
+        if (this.history.length > this.historySize) {
+            this.history.splice(0, this.history.length - this.historySize);
+        }
+        this.connections.forEach((connection) => {
+            if (connection.state === "open") {
+                this.deliver(connection, socketMessage);
+            }
+        })
+        return this.sequenceId;
+    }
+
+    private findConnection(client: SocketClient): Connection | undefined {
+        return this.connections.find((connection) => connection.client === client);
     }
 
-    private nextExec() {
-        const currentTimeout = (Math.floor(Math.random() * (this.maxPeriod - this.minPeriod)) + this.minPeriod) * 1000;
-        window.setTimeout(() => {
-            this.run();
-        }, currentTimeout);
+    private setState(connection: Connection, state: ConnectionState) {
+        connection.state = state;
+        connection.options.onStateChange?.(state);
     }
 
-    private run() {
-        if (this.running) {
-            this.performRandomAction();
-            this.nextExec();
+    private connect(connection: Connection) {
+        this.setState(connection, "connecting");
+        const open = () => {
+            this.setState(connection, "open");
+            // Also replays the messages dispatched while connecting
+            this.replay(connection);
+        };
+        const connectDelay = connection.options.connectDelay ?? 0;
+        if (connectDelay > 0) {
+            this.addTimer(connection, open, connectDelay);
+        } else {
+            open();
         }
     }
 
-    private performRandomAction() {
-        const actionIndex = this.getRandomIndex(this.actions);
-        const action = this.actions[actionIndex]?.bind(this);
-        if (action) {
-            action();
+    private close(connection: Connection) {
+        if (connection.state === "closed") {
+            return;
         }
+        this.clearTimers(connection);
+        this.setState(connection, "closed");
     }
 
-    private getRandomIndex<T>(array: T[]) {
-        return Math.floor(Math.random() * array.length);
+    private replay(connection: Connection) {
+        const sinceSequenceId = connection.lastSequenceId;
+        const oldestAvailableSequenceId = this.history[0]?.sequenceId ?? this.sequenceId + 1;
+        if (sinceSequenceId + 1 < oldestAvailableSequenceId) {
+            connection.options.onGap?.({ requestedSequenceId: sinceSequenceId, oldestAvailableSequenceId });
+            // The evicted messages will never be received: resume after them
+            this.resumeAfter(connection, oldestAvailableSequenceId - 1);
+        }
+        this.history
+            .filter((socketMessage) => socketMessage.sequenceId > sinceSequenceId)
+            .filter((socketMessage) => !connection.receivedAfterLast.has(socketMessage.sequenceId))
+            .forEach((socketMessage) => this.send(connection, socketMessage));
     }
 
-    private async moveTodo() {
-        console.log("event generator move todo");
-        try {
-            const getTodoListsResponse = await todoApi.getTodoLists();
-            if ('response' in getTodoListsResponse) {
-                const todoLists = getTodoListsResponse.response;
-                const listIndex = this.getRandomIndex(todoLists);
-                const todoListItems = todoLists[listIndex]?.items;
-                if (!todoListItems || !todoListItems?.length || todoListItems.length < 2) {
-                    return;
-                }
-                const sourceIndex = this.getRandomIndex(todoListItems);
-                let destIndex = this.getRandomIndex(todoListItems);
-                while (destIndex === sourceIndex) {
-                    destIndex = this.getRandomIndex(todoListItems);
-                }
-                todoApi.moveTodo(listIndex, sourceIndex, destIndex);
-            }
-        } catch(_e) {}
-    }
-
-    private async addTodo() {
-        console.log("event generator add todo");
-        try {
-            const getTodoListsResponse = await todoApi.getTodoLists();
-            if ('response' in getTodoListsResponse) {
-                const todoLists = getTodoListsResponse.response;
-                const listIndex = this.getRandomIndex(todoLists);
-                let description = "";
-                for(let i = 0; i < 15; i++) {
-                    description += String.fromCharCode(97 + Math.floor(Math.random() * 26));
-                }
-                const newItem = {
-                    done: Math.random() >= 0.5,
-                    description 
-                }
-                todoApi.addTodo(listIndex, newItem);
-            }
-        } catch(_e) {
-        }
-    }
-
-    private async removeTodo() {
-        console.log("event generator remove todo");
-        try {
-            const getTodoListsResponse = await todoApi.getTodoLists();
-            if ('response' in getTodoListsResponse) {
-                const todoLists = getTodoListsResponse.response;
-                const listIndex = this.getRandomIndex(todoLists);
-                const todoListItems = todoLists[listIndex]?.items;
-                if (!todoListItems || todoListItems.length === 0) {
-                    return;
-                }
-                const itemIndex = this.getRandomIndex(todoListItems);
-                todoApi.removeTodo(listIndex, itemIndex);
-            }
-        } catch(_e) {}
+    private deliver(connection: Connection, socketMessage: SocketMessage) {
+        const reorderRate = connection.options.delivery?.reorderRate ?? 0;
+        if (!connection.heldBack && reorderRate > 0 && this.random() < reorderRate) {
+            connection.heldBack = socketMessage;
+            this.addTimer(connection, () => this.releaseHeldBack(connection), REORDER_WINDOW);
+            return;
+        }
+        this.send(connection, socketMessage);
+        this.releaseHeldBack(connection);
+    }
+
+    private releaseHeldBack(connection: Connection) {
+        const heldBack = connection.heldBack;
+        if (heldBack) {
+            connection.heldBack = undefined;
+            this.send(connection, heldBack);
+        }
     }
 
-    private createList() {
-        console.log("event generator create list");
-        try {
-            let name = "";
-            for(let i = 0; i < 5; i++) {
-                name += String.fromCharCode(97 + Math.floor(Math.random() * 26));
+    private send(connection: Connection, socketMessage: SocketMessage) {
+        const delivery = connection.options.delivery ?? {};
+        const copies = delivery.duplicateRate && this.random() < delivery.duplicateRate ? 2 : 1;
+        for (let i = 0; i < copies; i++) {
+            const delay = (delivery.delay ?? 0) + (delivery.jitter ? this.random() * delivery.jitter : 0);
+            if (delay > 0) {
+                this.addTimer(connection, () => this.receive(connection, socketMessage), delay);
+            } else {
+                this.receive(connection, socketMessage);
             }
-            todoApi.createList(name);
-        } catch(_e) {}
-    }
-
-    private async deleteList() {
-        console.log("event generator delete list");
-        try {
-            const getTodoListsResponse = await todoApi.getTodoLists();
-            if ('response' in getTodoListsResponse) {
-                const todoLists = getTodoListsResponse.response;
-                if (todoLists.length === 0) {
-                    return;
-                }
-                const listIndex = this.getRandomIndex(todoLists);
-                todoApi.deleteList(listIndex);
+        }
+    }
+
+    private receive(connection: Connection, socketMessage: SocketMessage) {
+        if (connection.state !== "open") {
+            return;
+        }
+        this.markReceived(connection, socketMessage.sequenceId);
+        const visibleMessage = this.visibleMessage(connection, socketMessage);
+        if (visibleMessage && !this.isOwnEcho(connection, socketMessage)) {
+            connection.client(visibleMessage);
+        }
+    }
+
+    /**
+     * Moves lastSequenceId forward only when every message before the received one was received, so that a message
+     * still in flight, e.g. delayed by jitter, is replayed if the connection is closed before it arrives
+     */
+    private markReceived(connection: Connection, sequenceId: number) {
+        if (sequenceId > connection.lastSequenceId + 1) {
+            connection.receivedAfterLast.add(sequenceId);
+        } else {
+            this.resumeAfter(connection, sequenceId);
+        }
+    }
+
+    /**
+     * Moves lastSequenceId to sequenceId, then past the messages already received after it
+     */
+    private resumeAfter(connection: Connection, sequenceId: number) {
+        connection.lastSequenceId = Math.max(connection.lastSequenceId, sequenceId);
+        connection.receivedAfterLast.forEach((receivedSequenceId) => {
+            if (receivedSequenceId <= connection.lastSequenceId) {
+                connection.receivedAfterLast.delete(receivedSequenceId);
             }
-        } catch(_e) {}
+        });
+        while (connection.receivedAfterLast.delete(connection.lastSequenceId + 1)) {
+            connection.lastSequenceId++;
+        }
+    }
+
+    /**
+     * @returns The part of the message the user of the listener may see, undefined if none
+     */
+    private visibleMessage(connection: Connection, socketMessage: SocketMessage): SocketMessage | undefined {
+        const { userId } = connection.options;
+        if (userId === undefined) {
+            return socketMessage;
+        }
+        const audience = this.audiences.get(socketMessage) ?? {};
+        const isAllowed = (changeAudience: MessageAudience | undefined) => {
+            return !changeAudience?.userIds || changeAudience.userIds.includes(userId);
+        };
+        if (!isAllowed(audience)) {
+            return undefined;
+        }
+        if (socketMessage.type !== "batch" || !audience.changes) {
+            const message = audience.messages?.[userId];
+            return message ? ({ ...socketMessage, ...message } as SocketMessage) : socketMessage;
+        }
+        const changes = socketMessage.message.changes.flatMap((change, index) => {
+            const changeAudience = audience.changes?.[index];
+            return isAllowed(changeAudience) ? [changeAudience?.messages?.[userId] ?? change] : [];
+        });
+        if (changes.length === 0) {
+            return undefined;
+        }
+        return { ...socketMessage, message: { changes } };
+    }
+
+    private isOwnEcho(connection: Connection, socketMessage: SocketMessage): boolean {
+        const { clientId, skipOwnEchoes } = connection.options;
+        return !!skipOwnEchoes && clientId !== undefined && socketMessage.originClientId === clientId;
+    }
+
+    private addTimer(connection: Connection, callback: () => void, delay: number) {
+        const timer = this.scheduler.setTimeout(() => {
+            connection.timers = connection.timers.filter((currentTimer) => currentTimer !== timer);
+            callback();
+        }, delay);
+        connection.timers.push(timer);
     }
+
+    private clearTimers(connection: Connection) {
+        connection.timers.forEach((timer) => this.scheduler.clearTimeout(timer));
+        connection.timers = [];
+        connection.heldBack = undefined;
+    }
+}
+
+/**
+ * @returns The ids of the lists a message is about: the source and destination of a moveTodoToList, those of the
+ * changes of a batch
+ */
+export function getMessageListIds(message: RawMessage): string[] {
+    switch (message.type) {
+        case "batch":
+            return message.message.changes.flatMap(getMessageListIds);
+        case "createList":
+            return [message.message.id];
+        case "listMembers":
+        case "restoreList":
+            return [message.message.list.id];
+        case "moveTodoToList":
+            return [message.message.sourceListId, message.message.destListId];
+        default:
+            return [message.message.listId];
+    }
+}
+
+/**
+ * Creates an isolated socket, e.g. to be given to createTodoApi in a test
+ */
+export function createFakeSocket(options: FakeSocketOptions = {}): FakeSocket {
+    return new FakeSocket(options);
 }
 
-export const executor = new RandomActionExecutor();
-export const socket = new FakeSocket();
\ No newline at end of file
+export type { FakeSocket };
+
+export const socket = createFakeSocket();
\ No newline at end of file
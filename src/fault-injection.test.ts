@@ -0,0 +1,92 @@
+import { FaultInjector } from './fault-injection';
+import { createVirtualScheduler } from './scheduler';
+import { errorCode, responseOf, settle } from './test-helpers';
+import { createTodoApi } from './todo-api';
+
+describe('FaultInjector', () => {
+    it('applies a rule to the given calls only, counted from the rule', () => {
+        const injector = new FaultInjector(() => 0);
+        injector.evaluate('addTodo');
+        injector.addRule({ operation: 'addTodo', effect: { type: 'timeout' }, calls: [2] });
+        expect(injector.evaluate('addTodo')).toEqual([]);
+        expect(injector.evaluate('addTodo')).toEqual([{ type: 'timeout' }]);
+        expect(injector.evaluate('addTodo')).toEqual([]);
+    });
+
+    it('matches the variant of an operation taking ids, in both directions', () => {
+        const injector = new FaultInjector(() => 0);
+        injector.addRule({ operation: ['addTodo', 'createListWithId'], effect: { type: 'timeout' } });
+        expect(injector.evaluate('addTodoById')).toHaveLength(1);
+        expect(injector.evaluate('createList')).toHaveLength(1);
+        expect(injector.evaluate('removeTodo')).toHaveLength(0);
+    });
+
+    it('removes a rule once it has been applied the given number of times', () => {
+        const injector = new FaultInjector(() => 0);
+        injector.addRule({ operation: '*', effect: { type: 'delay', delay: 100 }, times: 2 });
+        expect([
+            injector.evaluate('getTodoLists'),
+            injector.evaluate('addTodo'),
+            injector.evaluate('removeTodo'),
+        ]).toEqual([[{ type: 'delay', delay: 100 }], [{ type: 'delay', delay: 100 }], []]);
+    });
+
+    it('applies a rule with the given probability', () => {
+        const values = [0.2, 0.8];
+        const injector = new FaultInjector(() => values.shift() ?? 0);
+        injector.addRule({ operation: '*', effect: { type: 'timeout' }, probability: 0.5 });
+        expect(injector.evaluate('getTodoLists')).toHaveLength(1);
+        expect(injector.evaluate('getTodoLists')).toHaveLength(0);
+    });
+
+    it('can be removed by id', () => {
+        const injector = new FaultInjector(() => 0);
+        const ruleId = injector.addRule({ operation: '*', effect: { type: 'timeout' } });
+        expect(injector.removeRule(ruleId)).toBe(true);
+        expect(injector.removeRule(ruleId)).toBe(false);
+        expect(injector.evaluate('getTodoLists')).toEqual([]);
+    });
+});
+
+describe('TodoApi fault rules', () => {
+    const scheduler = createVirtualScheduler();
+
+    function setup() {
+        return createTodoApi({ scheduler, latency: 10, initialData: [{ id: 'l1', name: 'List', items: [] }] });
+    }
+
+    it('rejects the call with the error, and only applies the change with commit', async () => {
+        const api = setup();
+        api.addFaultRule({ operation: 'addTodo', effect: { type: 'error', code: 503 }, times: 1 });
+        api.addFaultRule({ operation: 'addTodo', effect: { type: 'error', code: 500, commit: true }, calls: [2] });
+        const todo = { description: 'Milk', done: false };
+        expect(errorCode(await settle(scheduler, api.addTodoById('l1', todo)))).toBe(503);
+        expect(errorCode(await settle(scheduler, api.addTodoById('l1', todo)))).toBe(500);
+        const lists = responseOf(await settle(scheduler, api.getTodoLists()));
+        expect(lists[0]?.items.map((item) => item.description)).toEqual(['Milk']);
+    });
+
+    it('applies the change without publishing it with dropSocketEvent', async () => {
+        const api = setup();
+        const messages = jest.fn();
+        api.socket.addListener(messages);
+        api.addFaultRule({ operation: '*', effect: { type: 'dropSocketEvent' } });
+        responseOf(await settle(scheduler, api.renameListById('l1', 'Renamed')));
+        expect(messages).not.toHaveBeenCalled();
+        expect(responseOf(await settle(scheduler, api.getTodoLists()))[0]?.name).toBe('Renamed');
+    });
+
+    it('delays the answer, or never answers', async () => {
+        const api = setup();
+        api.addFaultRule({ operation: 'getTodoLists', effect: { type: 'delay', delay: 500 }, times: 1 });
+        const start = scheduler.now();
+        await settle(scheduler, api.getTodoLists());
+        expect(scheduler.now() - start).toBe(510);
+        api.addFaultRule({ operation: 'getTodoLists', effect: { type: 'timeout' } });
+        const onAnswer = jest.fn();
+        api.getTodoLists().then(onAnswer, onAnswer);
+        scheduler.runAll();
+        await new Promise((resolve) => setImmediate(resolve));
+        expect(onAnswer).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,109 @@
+import { RandomSource } from './random';
+import { ApiOperation } from './todo-api';
+
+export type FaultEffect =
+    /** Reject the request with the given code. With commit, the change is applied before the error is returned */
+    | { type: 'error'; code: number; description?: string; commit?: boolean }
+    /** Never answer */
+    | { type: 'timeout' }
+    /** Apply the change but do not publish it on the socket */
+    | { type: 'dropSocketEvent' }
+    /** Answer later than usual */
+    | { type: 'delay'; delay: number };
+
+export type FaultRule = {
+    /**
+     * The api method(s) the rule applies to, '*' for all of them. A method matches its variant taking ids, e.g. a rule
+     * on addTodo also applies to addTodoById, and conversely
+     */
+    operation: ApiOperation | ApiOperation[] | '*';
+    effect: FaultEffect;
+    /** Only apply on these calls, counted from 1 since the rule was added. Defaults to every call */
+    calls?: number[];
+    /** Probability between 0 and 1 that the rule applies to a matching call. Defaults to 1 */
+    probability?: number;
+    /** Remove the rule after it has been applied this many times. Defaults to never */
+    times?: number;
+};
+
+type ActiveFaultRule = {
+    id: string;
+    rule: FaultRule;
+    callCount: number;
+    appliedCount: number;
+};
+
+/**
+ * The method without the suffix of its variant taking ids, e.g. addTodo for addTodoById and createList for
+ * createListWithId
+ */
+function baseOperation(operation: ApiOperation): string {
+    return operation.replace(/(ById|WithId)$/, '');
+}
+
+/**
+ * Keeps the fault rules of an api and decides which ones apply to each call
+ */
+export class FaultInjector {
+    private rules: ActiveFaultRule[];
+    private nextRuleId: number;
+    private readonly random: RandomSource;
+
+    constructor(random: RandomSource) {
+        this.rules = [];
+        this.nextRuleId = 0;
+        this.random = random;
+    }
+
+    addRule(rule: FaultRule): string {
+        const id = `fault-${this.nextRuleId++}`;
+        this.rules.push({ id, rule, callCount: 0, appliedCount: 0 });
+        return id;
+    }
+
+    removeRule(ruleId: string): boolean {
+        const length = this.rules.length;
+        this.rules = this.rules.filter((activeRule) => activeRule.id !== ruleId);
+        return this.rules.length !== length;
+    }
+
+    clear() {
+        this.rules = [];
+    }
+
+    /**
+     * Registers a call to the operation
+     *
+     * @returns The effects to apply to this call, in the order the rules were added
+     */
+    evaluate(operation: ApiOperation): FaultEffect[] {
+        const effects: FaultEffect[] = [];
+        this.rules.forEach((activeRule) => {
+            const { rule } = activeRule;
+            if (!this.matches(rule, operation)) {
+                return;
+            }
+            activeRule.callCount++;
+            if (rule.calls && !rule.calls.includes(activeRule.callCount)) {
+                return;
+            }
+            if (rule.probability !== undefined && this.random() >= rule.probability) {
+                return;
+            }
+            activeRule.appliedCount++;
+            effects.push(rule.effect);
+        });
+        this.rules = this.rules.filter(
+            (activeRule) => activeRule.rule.times === undefined || activeRule.appliedCount < activeRule.rule.times,
+        );
+        return effects;
+    }
+
+    private matches(rule: FaultRule, operation: ApiOperation): boolean {
+        if (rule.operation === '*') {
+            return true;
+        }
+        const operations = Array.isArray(rule.operation) ? rule.operation : [rule.operation];
+        return operations.some((ruleOperation) => baseOperation(ruleOperation) === baseOperation(operation));
+    }
+}
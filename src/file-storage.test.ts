@@ -0,0 +1,39 @@
+import { existsSync, mkdtempSync, readdirSync, rmdirSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createFileStorage } from './file-storage';
+
+describe('createFileStorage', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'todo-storage-'));
+    });
+
+    afterEach(() => {
+        readdirSync(directory).forEach((file) => unlinkSync(join(directory, file)));
+        rmdirSync(directory);
+    });
+
+    it('loads nothing until the first save creates the file', () => {
+        const path = join(directory, 'todos.json');
+        const storage = createFileStorage(path);
+        expect(storage.load()).toBeNull();
+        expect(existsSync(path)).toBe(false);
+        storage.save('{"schemaVersion":3}');
+        expect(storage.load()).toBe('{"schemaVersion":3}');
+    });
+
+    it('replaces the file without leaving the temporary one behind', () => {
+        const path = join(directory, 'todos.json');
+        createFileStorage(path).save('[]');
+        createFileStorage(path).save('{"schemaVersion":3}');
+        expect(createFileStorage(path).load()).toBe('{"schemaVersion":3}');
+        expect(readdirSync(directory)).toEqual(['todos.json']);
+    });
+
+    it('throws when the file can not be written', () => {
+        const storage = createFileStorage(join(directory, 'missing', 'todos.json'));
+        expect(() => storage.save('[]')).toThrow();
+    });
+});
@@ -0,0 +1,24 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { StorageAdapter } from './storage';
+
+/**
+ * Persists the payload in a JSON file. Node only, exported from the node entry
+ *
+ * @param path The path of the file, created on the first save
+ */
+export function createFileStorage(path: string): StorageAdapter {
+    return {
+        load: () => {
+            if (!existsSync(path)) {
+                return null;
+            }
+            return readFileSync(path, 'utf8');
+        },
+        save: (payload) => {
+            // Write then rename so that a crash never leaves a truncated file
+            const temporaryPath = `${path}.tmp`;
+            writeFileSync(temporaryPath, payload, 'utf8');
+            renameSync(temporaryPath, path);
+        },
+    };
+}
@@ -0,0 +1,135 @@
+import { DataFormat, exportLists, ImportedList, parseImport } from './import-export';
+import { responseOf } from './test-helpers';
+import { ApiResponseWrapper, Todo, TodoList } from './todo-api';
+
+const TIMESTAMP = '2024-05-01T10:00:00.000Z';
+
+function buildTodo(id: string, fields: Partial<Todo> & Pick<Todo, 'description'>): Todo {
+    return { id, done: false, version: 3, createdAt: TIMESTAMP, updatedAt: TIMESTAMP, ...fields };
+}
+
+const LISTS: TodoList[] = [
+    {
+        id: 'l1',
+        name: 'Groceries, "weekly"',
+        version: 4,
+        ownerId: 'ann',
+        items: [
+            buildTodo('t1', { description: 'Milk', done: true, completedAt: TIMESTAMP }),
+            buildTodo('t2', {
+                description: 'Bread, "whole"\nsliced',
+                dueDate: '2024-05-02',
+                priority: 'high',
+                tags: ['bakery', 'daily'],
+                notes: 'Ask for the "rustic" one',
+                assigneeId: 'bob',
+            }),
+        ],
+    },
+    { id: 'l2', name: 'C#', version: 1, items: [] },
+];
+
+function roundTrip(format: DataFormat): ApiResponseWrapper<ImportedList[]> {
+    return parseImport(format, responseOf(exportLists(LISTS, format, TIMESTAMP)));
+}
+
+describe('exportLists and parseImport', () => {
+    it('round-trip the fields a client can send in json', () => {
+        expect(roundTrip('json')).toEqual({
+            response: [
+                {
+                    name: 'Groceries, "weekly"',
+                    items: [
+                        { description: 'Milk', done: true },
+                        {
+                            description: 'Bread, "whole"\nsliced',
+                            done: false,
+                            dueDate: '2024-05-02',
+                            priority: 'high',
+                            tags: ['bakery', 'daily'],
+                            notes: 'Ask for the "rustic" one',
+                        },
+                    ],
+                },
+                { name: 'C#', items: [] },
+            ],
+        });
+    });
+
+    it('round-trip the quoted values and the empty lists in csv', () => {
+        const json = roundTrip('json');
+        expect(roundTrip('csv')).toEqual(json);
+    });
+
+    it('round-trip the descriptions, done flags and list names in markdown', () => {
+        expect(roundTrip('markdown')).toEqual({
+            response: [
+                {
+                    name: 'Groceries, "weekly"',
+                    items: [
+                        { description: 'Milk', done: true },
+                        { description: 'Bread, "whole" sliced', done: false },
+                    ],
+                },
+                { name: 'C#', items: [] },
+            ],
+        });
+    });
+});
+
+describe('exportLists', () => {
+    it('rejects an unknown format', () => {
+        expect(exportLists(LISTS, 'xml' as DataFormat, TIMESTAMP)).toMatchObject({ error: { code: 400 } });
+        expect(exportLists(LISTS, 'toString' as DataFormat, TIMESTAMP)).toMatchObject({ error: { code: 400 } });
+    });
+});
+
+describe('parseImport', () => {
+    it('rejects an unknown format, even a key every object has', () => {
+        expect(parseImport('xml' as DataFormat, '')).toMatchObject({ error: { code: 400 } });
+        expect(parseImport('constructor' as DataFormat, '')).toMatchObject({ error: { code: 400 } });
+    });
+
+    it('keeps only the fields a client can send of the json items', () => {
+        const item = { ...buildTodo('t1', { description: 'Milk', priority: 'low' }), assigneeId: 'bob' };
+        const payload = JSON.stringify({
+            format: 'jamespot-todo',
+            version: 1,
+            exportedAt: TIMESTAMP,
+            lists: [{ name: 'Groceries', items: [item] }],
+        });
+        expect(parseImport('json', payload)).toEqual({
+            response: [{ name: 'Groceries', items: [{ description: 'Milk', done: false, priority: 'low' }] }],
+        });
+    });
+
+    it('rejects a json export of a newer version', () => {
+        const payload = JSON.stringify({ format: 'jamespot-todo', version: 2, exportedAt: TIMESTAMP, lists: [] });
+        expect(parseImport('json', payload)).toMatchObject({ error: { code: 400 } });
+    });
+
+    it('reports the line of the invalid csv rows', () => {
+        const result = parseImport('csv', 'list,description,done\nGroceries,Milk,maybe\n');
+        expect(result).toMatchObject({ error: { code: 422, fields: [{ field: 'done', line: 2 }] } });
+    });
+
+    it('reports a quoted csv value that is not closed', () => {
+        const result = parseImport('csv', 'list,description,done\nGroceries,"Milk,false\n');
+        expect(result).toMatchObject({ error: { code: 422, fields: [{ field: 'payload', line: 2 }] } });
+    });
+
+    it('strips the closing sequence of a markdown heading, but not a # ending the name', () => {
+        const result = parseImport('markdown', '# Chores ##\n- [ ] Vacuum\n\n## C#\n* [X] Learn\n');
+        expect(result).toEqual({
+            response: [
+                { name: 'Chores', items: [{ description: 'Vacuum', done: false }] },
+                { name: 'C#', items: [{ description: 'Learn', done: true }] },
+            ],
+        });
+    });
+
+    it('reports the markdown items that are not checklist items', () => {
+        const result = parseImport('markdown', '# Chores\n- Vacuum\n');
+        expect(result).toMatchObject({ error: { code: 422, fields: [{ field: 'item', line: 2 }] } });
+    });
+});
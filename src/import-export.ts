@@ -0,0 +1,383 @@
+import { buildErrorResponse, buildValidationErrorResponse } from './errors';
+import { ApiResponseWrapper, TodoInput, TodoList } from './todo-api';
+import { FieldError, validateListName, validateTodoInput } from './validation';
+
+export type DataFormat = 'json' | 'csv' | 'markdown';
+
+/**
+ * Version of the JSON export. Exports of a higher version are rejected
+ */
+export const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * A part of an imported payload that is invalid. line, counted from 1, is set for the csv and markdown formats
+ */
+export type ImportError = FieldError & {
+    line?: number;
+};
+
+/**
+ * A list read from an import, before it is applied
+ */
+export type ImportedList = {
+    name: string;
+    items: TodoInput[];
+};
+
+type JsonExport = {
+    format: 'jamespot-todo';
+    version: number;
+    exportedAt: string;
+    lists: ImportedList[];
+};
+
+type CsvRow = {
+    line: number;
+    values: string[];
+};
+
+const CSV_COLUMNS = ['list', 'description', 'done', 'dueDate', 'priority', 'tags', 'notes'] as const;
+const CSV_TAG_SEPARATOR = ';';
+
+/**
+ * Keeps the fields a client can send: the ids, versions and timestamps are generated again on import. The assignees
+ * are dropped, as the users of another api are not the same
+ */
+function toTodoInput(todo: TodoInput): TodoInput {
+    const input: TodoInput = { description: todo.description, done: todo.done };
+    if (todo.dueDate !== undefined) {
+        input.dueDate = todo.dueDate;
+    }
+    if (todo.priority !== undefined) {
+        input.priority = todo.priority;
+    }
+    if (todo.tags !== undefined) {
+        input.tags = [...todo.tags];
+    }
+    if (todo.notes !== undefined) {
+        input.notes = todo.notes;
+    }
+    if (todo.remindAt !== undefined) {
+        input.remindAt = todo.remindAt;
+    }
+    if (todo.recurrence !== undefined) {
+        input.recurrence = { ...todo.recurrence };
+    }
+    return input;
+}
+
+function escapeCsvValue(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function exportCsv(lists: TodoList[]): string {
+    const rows = [CSV_COLUMNS.join(',')];
+    lists.forEach((todoList) => {
+        if (todoList.items.length === 0) {
+            // A row without todo keeps the empty lists
+            rows.push(escapeCsvValue(todoList.name));
+        }
+        todoList.items.forEach((todo) => {
+            const values = [
+                todoList.name,
+                todo.description,
+                String(todo.done),
+                todo.dueDate ?? '',
+                todo.priority ?? '',
+                (todo.tags ?? []).join(CSV_TAG_SEPARATOR),
+                todo.notes ?? '',
+            ];
+            rows.push(values.map(escapeCsvValue).join(','));
+        });
+    });
+    return rows.join('\n') + '\n';
+}
+
+function exportJson(lists: TodoList[], exportedAt: string): string {
+    const jsonExport: JsonExport = {
+        format: 'jamespot-todo',
+        version: EXPORT_FORMAT_VERSION,
+        exportedAt,
+        lists: lists.map((todoList) => {
+            return { name: todoList.name, items: todoList.items.map(toTodoInput) };
+        }),
+    };
+    return JSON.stringify(jsonExport, null, 2);
+}
+
+function exportMarkdown(lists: TodoList[]): string {
+    return lists
+        .map((todoList) => {
+            const items = todoList.items.map((todo) => {
+                // A description spanning several lines would end the item
+                return `- [${todo.done ? 'x' : ' '}] ${todo.description.replace(/\s*\r?\n\s*/g, ' ')}`;
+            });
+            return [`# ${todoList.name}`, ...(items.length > 0 ? ['', ...items] : [])].join('\n');
+        })
+        .join('\n\n')
+        .concat('\n');
+}
+
+/**
+ * Writes the lists in the given format. Only the fields a client can send are exported: the ids, versions,
+ * timestamps, owners and assignees are not. The reminders and recurrences are only kept by the JSON format, the markdown
+ * format only keeps the descriptions and the done flags
+ *
+ * @param exportedAt ISO 8601 timestamp written in the JSON export
+ * @returns An ApiResponseWrapper containing the export. A 400 ApiResponseError if the format is unknown
+ */
+export function exportLists(lists: TodoList[], format: DataFormat, exportedAt: string): ApiResponseWrapper<string> {
+    // A switch rather than a lookup, so that an inherited key like toString is an unknown format
+    switch (format) {
+        case 'json':
+            return { response: exportJson(lists, exportedAt) };
+        case 'csv':
+            return { response: exportCsv(lists) };
+        case 'markdown':
+            return { response: exportMarkdown(lists) };
+        default:
+            return buildErrorResponse(400, `unknown format ${String(format)}`);
+    }
+}
+
+/**
+ * @param field Replaces the field of the errors, e.g. for the errors of validateListName
+ */
+function toImportErrors(errors: FieldError[], line: number | undefined, field?: string): ImportError[] {
+    return errors.map((error) => {
+        const importError: ImportError = { ...error };
+        if (field !== undefined) {
+            importError.field = field;
+        }
+        if (line !== undefined) {
+            importError.line = line;
+        }
+        return importError;
+    });
+}
+
+function parseJson(payload: string): ApiResponseWrapper<ImportedList[]> | ImportError[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(payload);
+    } catch (e) {
+        return buildErrorResponse(400, 'invalid json payload');
+    }
+    const jsonExport = data as Partial<JsonExport> | null;
+    if (typeof jsonExport !== 'object' || jsonExport === null || jsonExport.format !== 'jamespot-todo') {
+        return buildErrorResponse(400, 'unknown json format');
+    }
+    if (typeof jsonExport.version !== 'number' || jsonExport.version > EXPORT_FORMAT_VERSION) {
+        return buildErrorResponse(400, `unsupported export version ${String(jsonExport.version)}`);
+    }
+    if (!Array.isArray(jsonExport.lists)) {
+        return [{ field: 'lists', message: 'must be an array' }];
+    }
+    const errors: ImportError[] = [];
+    const lists = jsonExport.lists.map((todoList: unknown, listIndex) => {
+        const path = `lists[${listIndex}]`;
+        const { name, items } = (
+            typeof todoList === 'object' && todoList !== null ? todoList : {}
+        ) as Partial<ImportedList>;
+        errors.push(...toImportErrors(validateListName(name), undefined, `${path}.name`));
+        if (!Array.isArray(items)) {
+            errors.push({ field: `${path}.items`, message: 'must be an array' });
+            return { name: name as string, items: [] };
+        }
+        items.forEach((item, itemIndex) => errors.push(...validateTodoInput(item, `${path}.items[${itemIndex}]`)));
+        return { name: name as string, items };
+    });
+    if (errors.length > 0) {
+        return errors;
+    }
+    // Like the other formats, only the fields a client can send are kept, e.g. not the ids of a hand-written export
+    return {
+        response: lists.map((todoList) => {
+            return { name: todoList.name, items: todoList.items.map(toTodoInput) };
+        }),
+    };
+}
+
+/**
+ * Splits a csv payload in rows of values, following RFC 4180: a value containing a comma, a quote or a line break is
+ * quoted, and its quotes are doubled
+ */
+function splitCsv(payload: string): CsvRow[] | ImportError {
+    const rows: CsvRow[] = [];
+    let values: string[] = [];
+    let value = '';
+    let quoted = false;
+    let line = 1;
+    let rowLine = 1;
+    for (let index = 0; index < payload.length; index++) {
+        const char = payload[index];
+        if (quoted) {
+            if (char === '"' && payload[index + 1] === '"') {
+                value += '"';
+                index++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                line += char === '\n' ? 1 : 0;
+                value += char;
+            }
+        } else if (char === '"' && value === '') {
+            quoted = true;
+        } else if (char === ',') {
+            values.push(value);
+            value = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && payload[index + 1] === '\n') {
+                index++;
+            }
+            rows.push({ line: rowLine, values: [...values, value] });
+            values = [];
+            value = '';
+            line++;
+            rowLine = line;
+        } else {
+            value += char;
+        }
+    }
+    if (quoted) {
+        return { field: 'payload', line: rowLine, message: 'quoted value is not closed' };
+    }
+    if (value !== '' || values.length > 0) {
+        rows.push({ line: rowLine, values: [...values, value] });
+    }
+    return rows.filter((row) => row.values.some((rowValue) => rowValue.trim() !== ''));
+}
+
+/**
+ * Reads a row as a todo. Values that can not be converted are kept as strings, to be reported by the validation
+ */
+function csvRowToTodo(row: Record<string, string>): TodoInput {
+    const done = row['done']?.trim().toLowerCase();
+    const item: Record<string, unknown> = {
+        description: row['description'],
+        done: done === 'true' ? true : done === 'false' ? false : row['done'] || undefined,
+    };
+    (['dueDate', 'priority', 'notes'] as const).forEach((column) => {
+        if (row[column]) {
+            item[column] = row[column];
+        }
+    });
+    if (row['tags']) {
+        item['tags'] = row['tags']
+            .split(CSV_TAG_SEPARATOR)
+            .map((tag) => tag.trim())
+            .filter((tag) => tag !== '');
+    }
+    return item as TodoInput;
+}
+
+function parseCsv(payload: string): ApiResponseWrapper<ImportedList[]> | ImportError[] {
+    const rows = splitCsv(payload);
+    if (!Array.isArray(rows)) {
+        return [rows];
+    }
+    const [header, ...dataRows] = rows;
+    if (!header) {
+        return [{ field: 'payload', message: 'is empty' }];
+    }
+    const columns = header.values.map((column) => column.trim());
+    const missingColumns = ['list', 'description', 'done'].filter((column) => !columns.includes(column));
+    if (missingColumns.length > 0) {
+        return [
+            { field: 'header', line: header.line, message: `must contain the columns ${missingColumns.join(', ')}` },
+        ];
+    }
+    const errors: ImportError[] = [];
+    const lists: ImportedList[] = [];
+    dataRows.forEach(({ line, values }) => {
+        const row: Record<string, string> = {};
+        columns.forEach((column, index) => {
+            row[column] = values[index] ?? '';
+        });
+        const name = row['list'] ?? '';
+        const nameErrors = validateListName(name === '' ? undefined : name);
+        if (nameErrors.length > 0) {
+            errors.push(...toImportErrors(nameErrors, line, 'list'));
+            return;
+        }
+        let todoList = lists.find((importedList) => importedList.name === name);
+        if (!todoList) {
+            todoList = { name, items: [] };
+            lists.push(todoList);
+        }
+        // A row with only the list name declares an empty list
+        if (columns.every((column) => column === 'list' || !row[column])) {
+            return;
+        }
+        const item = csvRowToTodo(row);
+        const itemErrors = validateTodoInput(item);
+        if (itemErrors.length > 0) {
+            errors.push(...toImportErrors(itemErrors, line));
+            return;
+        }
+        todoList.items.push(item);
+    });
+    return errors.length > 0 ? errors : { response: lists };
+}
+
+function parseMarkdown(payload: string): ApiResponseWrapper<ImportedList[]> | ImportError[] {
+    const errors: ImportError[] = [];
+    const lists: ImportedList[] = [];
+    payload.split(/\r?\n/).forEach((text, index) => {
+        const line = index + 1;
+        const heading = /^#{1,6}\s+(.*?)(?:\s+#+)?\s*$/.exec(text);
+        if (heading) {
+            const name = heading[1] ?? '';
+            errors.push(...toImportErrors(validateListName(name), line, 'list'));
+            lists.push({ name, items: [] });
+            return;
+        }
+        const listItem = /^\s*[-*+]\s+(.*)$/.exec(text);
+        if (!listItem) {
+            // Paragraphs and other markdown are comments
+            return;
+        }
+        const checkbox = /^\[([ xX])\]\s+(.*?)\s*$/.exec(listItem[1] ?? '');
+        const todoList = lists[lists.length - 1];
+        if (!checkbox) {
+            errors.push({ field: 'item', line, message: 'must be a checklist item: - [ ] or - [x]' });
+            return;
+        }
+        if (!todoList) {
+            errors.push({ field: 'item', line, message: 'must follow the heading of its list' });
+            return;
+        }
+        const item: TodoInput = { description: checkbox[2] ?? '', done: checkbox[1] !== ' ' };
+        const itemErrors = validateTodoInput(item);
+        if (itemErrors.length > 0) {
+            errors.push(...toImportErrors(itemErrors, line));
+            return;
+        }
+        todoList.items.push(item);
+    });
+    return errors.length > 0 ? errors : { response: lists };
+}
+
+function parse(format: DataFormat, payload: string): ApiResponseWrapper<ImportedList[]> | ImportError[] {
+    switch (format) {
+        case 'json':
+            return parseJson(payload);
+        case 'csv':
+            return parseCsv(payload);
+        case 'markdown':
+            return parseMarkdown(payload);
+        default:
+            return buildErrorResponse(400, `unknown format ${String(format)}`);
+    }
+}
+
+/**
+ * Reads the lists of an import. Nothing is applied if a part of the payload is invalid
+ *
+ * @returns An ApiResponseWrapper containing the lists. An ApiResponseError if the payload can not be read, with the
+ * invalid rows or fields as a 422 error
+ */
+export function parseImport(format: DataFormat, payload: string): ApiResponseWrapper<ImportedList[]> {
+    const result = parse(format, payload);
+    return Array.isArray(result) ? buildValidationErrorResponse(result) : result;
+}
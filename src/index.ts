@@ -1,2 +1,18 @@
 export * from "./fake-socket";
-export * from "./todo-api";
\ No newline at end of file
+export type { FaultEffect, FaultRule } from "./fault-injection";
+export { EXPORT_FORMAT_VERSION } from "./import-export";
+export type { DataFormat, ImportError } from "./import-export";
+export type { ApiCall, ApiMiddleware } from "./middleware";
+export { CURRENT_SCHEMA_VERSION } from "./migrations";
+export type { PersistedTodos } from "./migrations";
+export * from "./observability";
+export * from "./random";
+export * from "./random-action-executor";
+export * from "./scheduler";
+export * from "./storage";
+export * from "./todo-api";
+export * from "./todo-client";
+export * from "./todo-query";
+export * from "./todo-reducer";
+export * from "./todo-store";
+export * from "./validation";
\ No newline at end of file
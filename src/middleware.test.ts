@@ -0,0 +1,78 @@
+import { ApiMiddleware } from './middleware';
+import { createVirtualScheduler, VirtualScheduler } from './scheduler';
+import { createTestApi, errorCode, responseOf, settle } from './test-helpers';
+import { TodoApi } from './todo-api';
+
+describe('api middlewares', () => {
+    let scheduler: VirtualScheduler;
+    let api: TodoApi;
+
+    beforeEach(() => {
+        scheduler = createVirtualScheduler();
+        api = createTestApi(scheduler);
+    });
+
+    it('runs the calls through the middlewares, the first added being the outermost', async () => {
+        const steps: string[] = [];
+        const trace =
+            (name: string): ApiMiddleware =>
+            async (call, next) => {
+                steps.push(`${name} ${call.operation}`);
+                const result = await next();
+                steps.push(`${name} done`);
+                return result;
+            };
+        api.addMiddleware(trace('outer'));
+        api.addMiddleware(trace('inner'));
+        await settle(scheduler, api.getTodoLists());
+        expect(steps).toEqual(['outer getTodoLists', 'inner getTodoLists', 'inner done', 'outer done']);
+    });
+
+    it('lets a middleware replace the arguments of the call', async () => {
+        api.addMiddleware((call, next) => {
+            if (call.operation === 'createListWithId') {
+                call.args = ['Renamed', ...call.args.slice(1)];
+            }
+            return next();
+        });
+        await settle(scheduler, api.createListWithId('Groceries'));
+        const lists = responseOf(await settle(scheduler, api.getTodoLists()));
+        expect(lists.map((todoList) => todoList.name)).toEqual(['Renamed']);
+    });
+
+    it('lets a middleware answer without calling the api', async () => {
+        api.addMiddleware(async () => ({ error: { code: 418, description: 'short-circuited' } }));
+        expect(errorCode(await settle(scheduler, api.createListWithId('Groceries')))).toBe(418);
+        api.clearMiddlewares();
+        expect(responseOf(await settle(scheduler, api.getTodoLists()))).toEqual([]);
+    });
+
+    it('passes the errors of the api along the chain as responses', async () => {
+        const results: unknown[] = [];
+        api.addMiddleware(async (_call, next) => {
+            const result = await next();
+            results.push(result);
+            return result;
+        });
+        const result = await settle(scheduler, api.removeTodoById('unknown', 'unknown'));
+        expect(errorCode(result)).toBe(404);
+        expect(results).toEqual([result]);
+    });
+
+    it('turns a middleware throwing into a 500 error', async () => {
+        api.addMiddleware(() => {
+            throw new Error('broken middleware');
+        });
+        expect(errorCode(await settle(scheduler, api.getTodoLists()))).toBe(500);
+    });
+
+    it('stops calling a removed middleware', async () => {
+        const middleware = jest.fn<ReturnType<ApiMiddleware>, Parameters<ApiMiddleware>>((_call, next) => next());
+        const middlewareId = api.addMiddleware(middleware);
+        await settle(scheduler, api.getTodoLists());
+        expect(api.removeMiddleware(middlewareId)).toBe(true);
+        await settle(scheduler, api.getTodoLists());
+        expect(middleware).toHaveBeenCalledTimes(1);
+        expect(api.removeMiddleware(middlewareId)).toBe(false);
+    });
+});
@@ -0,0 +1,93 @@
+import { buildErrorResponse, isApiResponseError } from './errors';
+import { ApiOperation, ApiResponseWrapper } from './todo-api';
+
+/**
+ * A call to an api method, as seen by the middlewares
+ */
+export type ApiCall = {
+    operation: ApiOperation;
+    /** The arguments given to the method. A middleware can replace them before calling next */
+    args: unknown[];
+    /** The session the call is made for, see TodoApi.session */
+    clientId: string | undefined;
+    /** The user the call is made for, see TodoApi.asUser */
+    userId: string | undefined;
+    /** The sequenceIds of the socket messages published by the call, filled when it is applied */
+    sequenceIds: number[];
+};
+
+/**
+ * Runs around the api calls. It can read or change the call, answer without calling next, or change the answer of
+ * next. Errors are resolved as ApiResponseErrors along the chain, and reject the call at its end
+ */
+export type ApiMiddleware = (
+    call: ApiCall,
+    next: () => Promise<ApiResponseWrapper<unknown>>,
+) => Promise<ApiResponseWrapper<unknown>>;
+
+type ActiveMiddleware = {
+    id: string;
+    middleware: ApiMiddleware;
+};
+
+/**
+ * Turns a rejection into an ApiResponseError, so that the middlewares only deal with resolved answers
+ */
+function settle(result: Promise<ApiResponseWrapper<unknown>>): Promise<ApiResponseWrapper<unknown>> {
+    return result.catch((e: unknown) => (isApiResponseError(e) ? e : buildErrorResponse(500, 'internal error')));
+}
+
+/**
+ * Keeps the middlewares of an api and runs the calls through them
+ */
+export class MiddlewareChain {
+    private middlewares: ActiveMiddleware[];
+    private nextMiddlewareId: number;
+
+    constructor() {
+        this.middlewares = [];
+        this.nextMiddlewareId = 0;
+    }
+
+    get isEmpty(): boolean {
+        return this.middlewares.length === 0;
+    }
+
+    add(middleware: ApiMiddleware): string {
+        const id = `middleware-${this.nextMiddlewareId++}`;
+        this.middlewares.push({ id, middleware });
+        return id;
+    }
+
+    remove(middlewareId: string): boolean {
+        const length = this.middlewares.length;
+        this.middlewares = this.middlewares.filter((activeMiddleware) => activeMiddleware.id !== middlewareId);
+        return this.middlewares.length !== length;
+    }
+
+    clear() {
+        this.middlewares = [];
+    }
+
+    /**
+     * Runs the call through the middlewares, the first added being the outermost
+     *
+     * @param invoke Calls the api method with the arguments of the call
+     */
+    run(call: ApiCall, invoke: () => Promise<ApiResponseWrapper<unknown>>): Promise<ApiResponseWrapper<unknown>> {
+        // Middlewares added or removed during the call do not apply to it
+        const middlewares = this.middlewares.map((activeMiddleware) => activeMiddleware.middleware);
+        const dispatch = (index: number): Promise<ApiResponseWrapper<unknown>> => {
+            const middleware = middlewares[index];
+            if (!middleware) {
+                return settle(invoke());
+            }
+            try {
+                return settle(middleware(call, () => dispatch(index + 1)));
+            } catch (e) {
+                return settle(Promise.reject(e));
+            }
+        };
+        return dispatch(0);
+    }
+}
@@ -0,0 +1,76 @@
+import { CURRENT_SCHEMA_VERSION, MigrationContext, migratePersistedTodos, serializeTodos } from './migrations';
+import { responseOf } from './test-helpers';
+
+const NOW = '2024-05-01T10:00:00.000Z';
+const EARLIER = '2024-04-01T10:00:00.000Z';
+
+function createContext(): MigrationContext {
+    let nextId = 0;
+    return { generateId: () => `id-${nextId++}`, now: NOW };
+}
+
+describe('migratePersistedTodos', () => {
+    it('gives ids and versions to the bare array of lists of version 0, keeping the existing ones', () => {
+        const data = [
+            { name: 'Groceries', items: [{ description: 'Milk', done: false }] },
+            {
+                id: 'l2',
+                version: 4,
+                name: 'Chores',
+                items: [{ id: 't2', version: 2, description: 'Dishes', done: false }],
+            },
+        ];
+        const { lists } = responseOf(migratePersistedTodos(data, createContext()));
+        expect(lists).toMatchObject([
+            { id: 'id-0', version: 1, items: [{ id: 'id-1', version: 1 }] },
+            { id: 'l2', version: 4, items: [{ id: 't2', version: 2 }] },
+        ]);
+    });
+
+    it('gives timestamps to the todos of version 1, completed when they are done', () => {
+        const items = [
+            { id: 't1', version: 1, description: 'Milk', done: true },
+            { id: 't2', version: 1, description: 'Bread', done: false, createdAt: EARLIER },
+        ];
+        const data = { schemaVersion: 1, lists: [{ id: 'l1', version: 1, name: 'Groceries', items }] };
+        const { lists } = responseOf(migratePersistedTodos(data, createContext()));
+        expect(lists[0]?.items).toEqual([
+            { ...items[0], createdAt: NOW, updatedAt: NOW, completedAt: NOW },
+            { ...items[1], createdAt: EARLIER, updatedAt: EARLIER },
+        ]);
+    });
+
+    it('adds an empty trash to the payloads of version 2', () => {
+        const data = { schemaVersion: 2, lists: [] };
+        expect(responseOf(migratePersistedTodos(data, createContext()))).toEqual({
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            lists: [],
+            trash: { lists: [], todos: [] },
+        });
+    });
+
+    it('returns a payload of the current version as it is', () => {
+        const payload = JSON.parse(serializeTodos([], { lists: [], todos: [] }));
+        expect(responseOf(migratePersistedTodos(payload, createContext()))).toEqual(payload);
+    });
+
+    it('rejects an unknown format, a newer schema version and the lists that fail validation', () => {
+        const context = createContext();
+        expect(migratePersistedTodos('lists', context)).toMatchObject({ error: { code: 500 } });
+        expect(migratePersistedTodos({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, lists: [] }, context)).toMatchObject({
+            error: {
+                code: 500,
+                description: `corrupt todos payload: unsupported schema version ${CURRENT_SCHEMA_VERSION + 1}`,
+            },
+        });
+        expect(migratePersistedTodos([{ name: 'Groceries', items: [{ done: 'yes' }] }], context)).toMatchObject({
+            error: {
+                code: 500,
+                fields: [
+                    { field: 'lists[0].items[0].description', message: 'is required' },
+                    { field: 'lists[0].items[0].done', message: 'must be a boolean' },
+                ],
+            },
+        });
+    });
+});
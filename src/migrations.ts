@@ -0,0 +1,168 @@
+import { buildErrorResponse } from './errors';
+import { ApiResponseWrapper, Todo, TodoList, TodoListSeed, Trash } from './todo-api';
+import { validateTodoList, validateTrash } from './validation';
+
+/**
+ * Version of the payload written by saveTodoToStorage. Add a migration when it is incremented
+ */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export type PersistedTodos = {
+    schemaVersion: number;
+    lists: TodoList[];
+    trash: Trash;
+};
+
+export type MigrationContext = {
+    generateId: () => string;
+    /** ISO 8601 timestamp of the migration */
+    now: string;
+};
+
+type Migration = {
+    /** The schema version the migration produces, from the previous one */
+    version: number;
+    migrate: (data: unknown, context: MigrationContext) => unknown;
+};
+
+const migrations: Migration[] = [
+    {
+        // Version 0 is the bare array of lists, with or without ids and versions depending on when it was saved
+        version: 1,
+        migrate: (data, context) => {
+            return {
+                schemaVersion: 1,
+                lists: fillMissingIds(data as TodoListSeed[], context.generateId),
+            };
+        },
+    },
+    {
+        // Todos get timestamps: the existing ones are considered created, and completed if done, by the migration
+        version: 2,
+        migrate: (data, context) => {
+            return {
+                schemaVersion: 2,
+                lists: completeTodoLists((data as { lists: TodoListSeed[] }).lists, context),
+            };
+        },
+    },
+    {
+        // Deleted lists and todos are kept in a trash, empty for the payloads saved before
+        version: 3,
+        migrate: (data) => {
+            return {
+                ...(data as object),
+                schemaVersion: 3,
+                trash: { lists: [], todos: [] },
+            };
+        },
+    },
+];
+
+/**
+ * Gives an id and a first version to the lists and items that do not have one
+ */
+function fillMissingIds(todoLists: TodoListSeed[], generateId: () => string): TodoListSeed[] {
+    return todoLists.map((todoList) => {
+        return {
+            ...todoList,
+            id: todoList.id ?? generateId(),
+            version: todoList.version ?? 1,
+            items: (todoList.items ?? []).map((todo) => {
+                return { ...todo, id: todo.id ?? generateId(), version: todo.version ?? 1 };
+            }),
+        };
+    });
+}
+
+/**
+ * Builds complete lists from seed data: fills the missing ids, versions and timestamps
+ */
+export function completeTodoLists(todoLists: TodoListSeed[], context: MigrationContext): TodoList[] {
+    return todoLists.map((todoList) => {
+        const completedList: TodoList = {
+            id: todoList.id ?? context.generateId(),
+            name: todoList.name,
+            version: todoList.version ?? 1,
+            items: (todoList.items ?? []).map((todo) => {
+                const completedTodo: Todo = {
+                    ...todo,
+                    id: todo.id ?? context.generateId(),
+                    version: todo.version ?? 1,
+                    createdAt: todo.createdAt ?? context.now,
+                    updatedAt: todo.updatedAt ?? todo.createdAt ?? context.now,
+                };
+                if (todo.done && completedTodo.completedAt === undefined) {
+                    completedTodo.completedAt = completedTodo.updatedAt;
+                }
+                return completedTodo;
+            }),
+        };
+        if (todoList.ownerId !== undefined) {
+            completedList.ownerId = todoList.ownerId;
+        }
+        if (todoList.members !== undefined) {
+            completedList.members = todoList.members.map((member) => {
+                return { ...member };
+            });
+        }
+        return completedList;
+    });
+}
+
+function schemaVersionOf(data: unknown): number | undefined {
+    if (Array.isArray(data)) {
+        return 0;
+    }
+    if (typeof data === 'object' && data !== null && 'schemaVersion' in data) {
+        const { schemaVersion } = data as { schemaVersion: unknown };
+        return typeof schemaVersion === 'number' ? schemaVersion : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * Brings a persisted payload up to the current schema version and validates it
+ *
+ * @param data The parsed payload
+ * @param context Used by the migrations that create ids or timestamps
+ * @returns An ApiResponseWrapper containing the payload. An ApiResponseError listing the invalid fields if the payload is corrupt
+ */
+export function migratePersistedTodos(data: unknown, context: MigrationContext): ApiResponseWrapper<PersistedTodos> {
+    const schemaVersion = schemaVersionOf(data);
+    if (schemaVersion === undefined) {
+        return buildErrorResponse(500, 'corrupt todos payload: unknown format');
+    }
+    if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+        return buildErrorResponse(500, `corrupt todos payload: unsupported schema version ${schemaVersion}`);
+    }
+    let migrated: unknown;
+    try {
+        migrated = migrations
+            .filter((migration) => migration.version > schemaVersion)
+            .reduce((currentData, migration) => migration.migrate(currentData, context), data);
+    } catch (e) {
+        return buildErrorResponse(500, `corrupt todos payload: could not migrate from version ${schemaVersion}`);
+    }
+    const { lists, trash } = migrated as Partial<PersistedTodos>;
+    if (!Array.isArray(lists)) {
+        return buildErrorResponse(500, 'corrupt todos payload: expected an array of lists');
+    }
+    const fields = [
+        ...lists.flatMap((todoList, index) => validateTodoList(todoList, `lists[${index}]`)),
+        ...validateTrash(trash, 'trash'),
+    ];
+    if (fields.length > 0) {
+        const response = buildErrorResponse(500, 'corrupt todos payload');
+        response.error.fields = fields;
+        return response;
+    }
+    return {
+        response: migrated as PersistedTodos,
+    };
+}
+
+export function serializeTodos(lists: TodoList[], trash: Trash): string {
+    const persistedTodos: PersistedTodos = { schemaVersion: CURRENT_SCHEMA_VERSION, lists, trash };
+    return JSON.stringify(persistedTodos);
+}
@@ -0,0 +1,3 @@
+export * from "./index";
+export * from "./file-storage";
+export * from "./todo-server";
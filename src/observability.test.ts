@@ -0,0 +1,83 @@
+import { createApiMetrics, createRequestRecorder } from './observability';
+import { createVirtualScheduler, VirtualScheduler } from './scheduler';
+import { createTestApi, responseOf, settle } from './test-helpers';
+import { TodoApi, TodoInput } from './todo-api';
+
+describe('observability', () => {
+    let scheduler: VirtualScheduler;
+    let api: TodoApi;
+
+    beforeEach(() => {
+        scheduler = createVirtualScheduler();
+        api = createTestApi(scheduler, { latency: 100 });
+    });
+
+    describe('RequestRecorder', () => {
+        it('records the calls with a copy of their arguments, their latency and the messages they published', async () => {
+            const recorder = createRequestRecorder({ scheduler });
+            api.addMiddleware(recorder.middleware);
+            const session = api.session('tab');
+            const listId = responseOf(await settle(scheduler, session.createListWithId('Groceries')));
+            const item: TodoInput = { description: 'Milk', done: false };
+            const added = session.addTodoById(listId, item);
+            item.description = 'Changed';
+            await settle(scheduler, added);
+            await settle(scheduler, session.removeTodoById(listId, 'unknown'));
+            expect(recorder.getRecords('addTodoById')).toEqual([
+                {
+                    operation: 'addTodoById',
+                    args: [listId, { description: 'Milk', done: false }],
+                    clientId: 'tab',
+                    userId: undefined,
+                    startedAt: 100,
+                    latency: 100,
+                    outcome: 'success',
+                    response: expect.any(String),
+                    sequenceIds: [api.socket.lastSequenceId],
+                },
+            ]);
+            expect(recorder.getRecords('removeTodoById')).toMatchObject([
+                { outcome: 'error', error: { code: 404 }, sequenceIds: [] },
+            ]);
+            expect(recorder.getRecords()).toHaveLength(3);
+        });
+
+        it('keeps the most recent records', async () => {
+            const onRecord = jest.fn();
+            const recorder = createRequestRecorder({ scheduler, maxRecords: 2, onRecord });
+            api.addMiddleware(recorder.middleware);
+            await settle(scheduler, api.getTodoLists());
+            await settle(scheduler, api.getUsers());
+            await settle(scheduler, api.getTrash());
+            expect(recorder.getRecords().map((record) => record.operation)).toEqual(['getUsers', 'getTrash']);
+            expect(onRecord).toHaveBeenCalledTimes(3);
+            recorder.clear();
+            expect(recorder.getRecords()).toEqual([]);
+        });
+    });
+
+    describe('ApiMetrics', () => {
+        it('counts the calls, errors and latencies by operation', async () => {
+            const metrics = createApiMetrics({ scheduler });
+            api.addMiddleware(metrics.middleware);
+            api.addFaultRule({ operation: 'getTodoLists', calls: [2], effect: { type: 'delay', delay: 200 } });
+            api.addFaultRule({ operation: 'getTodoLists', calls: [3], effect: { type: 'error', code: 503 } });
+            for (let i = 0; i < 3; i++) {
+                await settle(scheduler, api.getTodoLists());
+            }
+            expect(metrics.getMetrics()).toEqual({
+                getTodoLists: {
+                    count: 3,
+                    errorCount: 1,
+                    errorCodes: { 503: 1 },
+                    totalLatency: 500,
+                    averageLatency: 500 / 3,
+                    minLatency: 100,
+                    maxLatency: 300,
+                },
+            });
+            metrics.reset();
+            expect(metrics.getMetrics()).toEqual({});
+        });
+    });
+});
@@ -0,0 +1,168 @@
+import { ApiMiddleware } from './middleware';
+import { realScheduler, Scheduler } from './scheduler';
+import { ApiOperation, ApiResponseError } from './todo-api';
+
+/**
+ * An api call recorded by a RequestRecorder
+ */
+export type RecordedRequest = {
+    operation: ApiOperation;
+    /** A copy of the arguments, as received by the recorder */
+    args: unknown[];
+    clientId: string | undefined;
+    userId: string | undefined;
+    /** Time of the scheduler when the call was made */
+    startedAt: number;
+    /** Milliseconds until the call was answered */
+    latency: number;
+    outcome: 'success' | 'error';
+    /** The response of a successful call */
+    response?: unknown;
+    /** The error of a failed call */
+    error?: ApiResponseError['error'];
+    /** The sequenceIds of the socket messages published by the call */
+    sequenceIds: number[];
+};
+
+export type RequestRecorderOptions = {
+    /** The clock the latencies are measured with: use the scheduler of the api. Defaults to the real one */
+    scheduler?: Scheduler;
+    /** Called with each record, e.g. to write a structured log */
+    onRecord?: (record: RecordedRequest) => void;
+    /** Number of records kept, the oldest are dropped first. Defaults to 1000 */
+    maxRecords?: number;
+};
+
+export type OperationMetrics = {
+    count: number;
+    errorCount: number;
+    /** Number of errors by code */
+    errorCodes: Record<number, number>;
+    totalLatency: number;
+    averageLatency: number;
+    minLatency: number;
+    maxLatency: number;
+};
+
+export type ApiMetricsOptions = {
+    /** The clock the latencies are measured with: use the scheduler of the api. Defaults to the real one */
+    scheduler?: Scheduler;
+};
+
+/**
+ * Records the api calls, e.g. to assert in a test that the UI made exactly the expected calls.
+ * Add its middleware with TodoApi.addMiddleware
+ */
+class RequestRecorder {
+    private records: RecordedRequest[];
+    private readonly scheduler: Scheduler;
+    private readonly onRecord: ((record: RecordedRequest) => void) | undefined;
+    private readonly maxRecords: number;
+
+    constructor(options: RequestRecorderOptions) {
+        this.records = [];
+        this.scheduler = options.scheduler ?? realScheduler;
+        this.onRecord = options.onRecord;
+        this.maxRecords = options.maxRecords ?? 1000;
+    }
+
+    readonly middleware: ApiMiddleware = async (call, next) => {
+        const startedAt = this.scheduler.now();
+        // Copy the arguments so that a later change by the caller does not alter the record
+        const args = JSON.parse(JSON.stringify(call.args)) as unknown[];
+        const result = await next();
+        const record: RecordedRequest = {
+            operation: call.operation,
+            args,
+            clientId: call.clientId,
+            userId: call.userId,
+            startedAt,
+            latency: this.scheduler.now() - startedAt,
+            outcome: 'error' in result ? 'error' : 'success',
+            sequenceIds: [...call.sequenceIds],
+        };
+        if ('error' in result) {
+            record.error = result.error;
+        } else {
+            record.response = result.response;
+        }
+        this.records.push(record);
+        if (this.records.length > this.maxRecords) {
+            this.records.splice(0, this.records.length - this.maxRecords);
+        }
+        this.onRecord?.(record);
+        return result;
+    };
+
+    /**
+     * @param operation Only the calls to this method
+     * @returns The calls answered since the recorder was created or cleared, in the order they were answered
+     */
+    getRecords(operation?: ApiOperation): RecordedRequest[] {
+        return this.records.filter((record) => operation === undefined || record.operation === operation);
+    }
+
+    clear() {
+        this.records = [];
+    }
+}
+
+/**
+ * Counts the api calls, their errors and latencies, by operation. Add its middleware with TodoApi.addMiddleware
+ */
+class ApiMetrics {
+    private metrics: Partial<Record<ApiOperation, OperationMetrics>>;
+    private readonly scheduler: Scheduler;
+
+    constructor(options: ApiMetricsOptions) {
+        this.metrics = {};
+        this.scheduler = options.scheduler ?? realScheduler;
+    }
+
+    readonly middleware: ApiMiddleware = async (call, next) => {
+        const startedAt = this.scheduler.now();
+        const result = await next();
+        const latency = this.scheduler.now() - startedAt;
+        const metrics = this.metrics[call.operation] ?? {
+            count: 0,
+            errorCount: 0,
+            errorCodes: {},
+            totalLatency: 0,
+            averageLatency: 0,
+            minLatency: latency,
+            maxLatency: latency,
+        };
+        metrics.count++;
+        if ('error' in result) {
+            metrics.errorCount++;
+            metrics.errorCodes[result.error.code] = (metrics.errorCodes[result.error.code] ?? 0) + 1;
+        }
+        metrics.totalLatency += latency;
+        metrics.averageLatency = metrics.totalLatency / metrics.count;
+        metrics.minLatency = Math.min(metrics.minLatency, latency);
+        metrics.maxLatency = Math.max(metrics.maxLatency, latency);
+        this.metrics[call.operation] = metrics;
+        return result;
+    };
+
+    /**
+     * @returns A copy of the metrics of the operations called at least once
+     */
+    getMetrics(): Partial<Record<ApiOperation, OperationMetrics>> {
+        return JSON.parse(JSON.stringify(this.metrics));
+    }
+
+    reset() {
+        this.metrics = {};
+    }
+}
+
+export function createRequestRecorder(options: RequestRecorderOptions = {}): RequestRecorder {
+    return new RequestRecorder(options);
+}
+
+export function createApiMetrics(options: ApiMetricsOptions = {}): ApiMetrics {
+    return new ApiMetrics(options);
+}
+
+export type { ApiMetrics, RequestRecorder };
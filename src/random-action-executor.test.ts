@@ -0,0 +1,169 @@
+import { ActionResult, createRandomActionExecutor, RandomActionExecutorOptions } from './random-action-executor';
+import { createSeededRandom } from './random';
+import { createVirtualScheduler, VirtualScheduler } from './scheduler';
+import { createTestApi, responseOf, settle } from './test-helpers';
+import { TodoApi } from './todo-api';
+
+describe('RandomActionExecutor', () => {
+    let scheduler: VirtualScheduler;
+    let api: TodoApi;
+    let results: ActionResult[];
+
+    /**
+     * Moves the clock forward step by step, letting the api answer each call of an action before the next one
+     */
+    async function advance(delay: number) {
+        for (let elapsed = 0; elapsed < delay; elapsed += 10) {
+            scheduler.advanceBy(10);
+            await new Promise((resolve) => setImmediate(resolve));
+        }
+    }
+
+    function createExecutor(options: RandomActionExecutorOptions = {}) {
+        return createRandomActionExecutor({ api, onAction: (result) => results.push(result), ...options });
+    }
+
+    async function listNames(): Promise<string[]> {
+        return responseOf(await settle(scheduler, api.getTodoLists())).map((todoList) => todoList.name);
+    }
+
+    beforeEach(() => {
+        scheduler = createVirtualScheduler();
+        api = createTestApi(scheduler);
+        results = [];
+    });
+
+    describe('random actions', () => {
+        it('only picks the actions with a weight', async () => {
+            const executor = createExecutor({
+                weights: { createList: 1, moveTodo: 0, addTodo: 0, editTodo: 0, deleteList: 0, removeTodo: 0 },
+            });
+            executor.launch(1, 2);
+            await advance(3500);
+            executor.stop();
+            expect(results.map((result) => [result.action, result.status, result.time])).toEqual([
+                ['createList', 'success', 1000],
+                ['createList', 'success', 2000],
+                ['createList', 'success', 3000],
+            ]);
+            expect(await listNames()).toHaveLength(3);
+        });
+
+        it('uses the new weights once they are set', async () => {
+            const executor = createExecutor({ weights: { createList: 1, addTodo: 0, deleteList: 0 } });
+            executor.setWeights({ addTodo: 1, moveTodo: 0, editTodo: 0, createList: 0, deleteList: 0, removeTodo: 0 });
+            executor.launch(1, 2);
+            await advance(1500);
+            executor.stop();
+            expect(results).toMatchObject([{ action: 'addTodo' }]);
+        });
+
+        it('skips an action when there is nothing to act on', async () => {
+            const executor = createExecutor({
+                weights: { removeTodo: 1, moveTodo: 0, addTodo: 0, editTodo: 0, createList: 0, deleteList: 0 },
+            });
+            executor.launch(1, 2);
+            await advance(1500);
+            executor.stop();
+            expect(results).toEqual([{ action: 'removeTodo', time: 1000, status: 'skipped' }]);
+        });
+
+        it('stops performing actions once stopped', async () => {
+            const executor = createExecutor();
+            executor.launch(1, 2);
+            await advance(1500);
+            executor.stop();
+            await advance(5000);
+            expect(results).toHaveLength(1);
+        });
+
+        it('rejects invalid periods', () => {
+            const executor = createExecutor();
+            expect(() => executor.launch(2, 1)).toThrow();
+            expect(() => executor.launch(-1, 1)).toThrow();
+        });
+
+        it('performs the same actions with the same seed', async () => {
+            async function run(seed: number): Promise<ActionResult[]> {
+                scheduler = createVirtualScheduler();
+                api = createTestApi(scheduler, { random: createSeededRandom(seed) });
+                results = [];
+                const executor = createExecutor();
+                executor.launch(1, 3);
+                await advance(12000);
+                executor.stop();
+                return results;
+            }
+
+            const first = await run(42);
+            expect(first.map((result) => [result.action, result.time, result.status])).toEqual([
+                ['editTodo', 2000, 'skipped'],
+                ['createList', 4000, 'success'],
+                ['addTodo', 6000, 'success'],
+                ['moveTodo', 8000, 'skipped'],
+                ['addTodo', 9000, 'success'],
+                ['editTodo', 11000, 'success'],
+            ]);
+            expect(await run(42)).toEqual(first);
+        });
+    });
+
+    describe('scenarios', () => {
+        it('performs the steps at their time and resolves with their results in the order of the steps', async () => {
+            const executor = createExecutor();
+            const scenario = executor.runScenario([
+                { at: 2000, action: { type: 'renameList', listIndex: 0, name: 'Shopping' } },
+                { at: 1000, action: { type: 'createList', name: 'Groceries' } },
+                { at: 1000, action: { type: 'addTodo', listIndex: 0, item: { description: 'Milk', done: false } } },
+                { at: 3000, action: { type: 'deleteList', listIndex: 5 } },
+            ]);
+            await advance(1500);
+            expect(await listNames()).toEqual(['Groceries']);
+            await advance(2000);
+            const scenarioResults = await scenario;
+            expect(scenarioResults).toMatchObject([
+                { action: 'renameList', step: 0, time: 2000, status: 'success' },
+                { action: 'createList', step: 1, time: 1000, status: 'success' },
+                { action: 'addTodo', step: 2, time: 1000, status: 'success' },
+                { action: 'deleteList', step: 3, time: 3000, status: 'error', error: { error: { code: 400 } } },
+            ]);
+            expect(results.map((result) => result.step)).toEqual([1, 2, 0, 3]);
+            const [todoList] = responseOf(await settle(scheduler, api.getTodoLists()));
+            expect(todoList).toMatchObject({ name: 'Shopping', items: [{ description: 'Milk' }] });
+        });
+
+        it('performs a random step with the given action, and a custom step with the api', async () => {
+            const run = jest.fn((stepApi: TodoApi) => stepApi.createListWithId('Chores'));
+            const executor = createExecutor();
+            const scenario = executor.runScenario([
+                { at: 0, action: { type: 'custom', run } },
+                { at: 100, action: { type: 'random', action: 'addTodo' } },
+            ]);
+            await advance(200);
+            expect(await scenario).toMatchObject([
+                { action: 'custom', status: 'success' },
+                { action: 'addTodo', status: 'success' },
+            ]);
+            expect(run).toHaveBeenCalledWith(api);
+            const [todoList] = responseOf(await settle(scheduler, api.getTodoLists()));
+            expect(todoList?.items).toHaveLength(1);
+        });
+
+        it('resolves with the results answered so far once stopped', async () => {
+            const executor = createExecutor();
+            const scenario = executor.runScenario([
+                { at: 1000, action: { type: 'createList', name: 'Groceries' } },
+                { at: 5000, action: { type: 'createList', name: 'Chores' } },
+            ]);
+            await advance(2000);
+            executor.stop();
+            expect(await scenario).toMatchObject([{ action: 'createList', step: 0 }]);
+            await advance(5000);
+            expect(await listNames()).toEqual(['Groceries']);
+        });
+
+        it('resolves an empty scenario at once', async () => {
+            expect(await createExecutor().runScenario([])).toEqual([]);
+        });
+    });
+});
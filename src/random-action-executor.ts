@@ -0,0 +1,363 @@
+import { RandomSource } from "./random";
+import { Scheduler, TimerHandle } from "./scheduler";
+import { ApiResponseError, ApiResponseWrapper, TodoApi, todoApi, TodoInput, TodoPatch } from "./todo-api";
+
+export type RandomActionName = "moveTodo" | "addTodo" | "editTodo" | "createList" | "deleteList" | "removeTodo";
+
+/**
+ * Relative probability of each random action, e.g. { editTodo: 3, deleteList: 0 }. Missing actions weigh 1
+ */
+export type ActionWeights = Partial<Record<RandomActionName, number>>;
+
+/**
+ * An action of a scenario. Lists and items are designated by their index when the action is performed
+ */
+export type ScenarioAction =
+    | { type: "createList"; name: string }
+    | { type: "deleteList"; listIndex: number }
+    | { type: "renameList"; listIndex: number; name: string }
+    | { type: "addTodo"; listIndex: number; item: TodoInput }
+    | { type: "removeTodo"; listIndex: number; itemIndex: number }
+    | { type: "moveTodo"; listIndex: number; itemIndex: number; destIndex: number }
+    | { type: "editTodo"; listIndex: number; itemIndex: number; newValue: TodoPatch }
+    /** One of the random actions, picked with the weights when not given */
+    | { type: "random"; action?: RandomActionName }
+    | { type: "custom"; run: (api: TodoApi) => Promise<ApiResponseWrapper<unknown>> };
+
+export type ScenarioStep = {
+    /** Milliseconds after the start of the scenario */
+    at: number;
+    action: ScenarioAction;
+};
+
+export type ActionResult = {
+    /** The random action performed, or the type of the scenario action */
+    action: RandomActionName | ScenarioAction["type"];
+    /** Index of the step, for the actions of a scenario */
+    step?: number;
+    /** scheduler.now() when the action was performed */
+    time: number;
+    /** skipped when there was nothing to act on, e.g. no todo to remove */
+    status: "success" | "error" | "skipped";
+    error?: ApiResponseError;
+};
+
+export type RandomActionExecutorOptions = {
+    /** Api the actions are performed against. Defaults to a session of the shared api, acting as another client */
+    api?: TodoApi;
+    /** Defaults to the random source of the api, so that one seed drives both */
+    random?: RandomSource;
+    /** Defaults to the scheduler of the api */
+    scheduler?: Scheduler;
+    /** Defaults to the same probability for every action */
+    weights?: ActionWeights;
+    /** Called with the result of each action, random or scripted, once the api answered */
+    onAction?: (result: ActionResult) => void;
+};
+
+// undefined when the action was skipped
+type ActionOutcome = ApiResponseWrapper<unknown> | undefined;
+
+const RANDOM_ACTIONS: RandomActionName[] = ["moveTodo", "addTodo", "editTodo", "createList", "deleteList", "removeTodo"];
+
+class RandomActionExecutor {
+
+    private running: boolean;
+    private minPeriod: number;
+    private maxPeriod: number;
+    private timer: TimerHandle | undefined;
+    private scenarioTimers: TimerHandle[];
+    // Resolves the scenarios in progress with the results collected so far
+    private scenarioStops: (() => void)[];
+    private weights: ActionWeights;
+    private readonly onAction: ((result: ActionResult) => void) | undefined;
+    private readonly api: TodoApi;
+    private readonly random: RandomSource;
+    private readonly scheduler: Scheduler;
+
+    constructor(options: RandomActionExecutorOptions = {}) {
+        this.api = options.api ?? todoApi.session('random-action-executor');
+        this.random = options.random ?? this.api.random;
+        this.scheduler = options.scheduler ?? this.api.scheduler;
+        this.weights = options.weights ?? {};
+        this.onAction = options.onAction;
+        this.running = false;
+        this.minPeriod = 1;
+        this.maxPeriod = 5;
+        this.scenarioTimers = [];
+        this.scenarioStops = [];
+    }
+
+    /**
+     * Start randomly performing actions against the fake api
+     *
+     * @param minPeriod minimum period in seconds between two random actions
+     * @param maxPeriod maximum period in seconds between two random actions
+     */
+    launch(minPeriod: number, maxPeriod: number) {
+        if (minPeriod < 0 || maxPeriod < 0 || minPeriod >= maxPeriod) {
+            throw new Error('min period must be inferior to max period and both must be positive');
+        }
+        this.running = true;
+        this.minPeriod = minPeriod;
+        this.maxPeriod = maxPeriod;
+        this.nextExec();
+    }
+
+    /**
+     * Stops the random actions and the scenarios in progress. The actions already sent still get their result
+     */
+    stop() {
+        this.running = false;
+        if (this.timer !== undefined) {
+            this.scheduler.clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.scenarioTimers.forEach((timer) => this.scheduler.clearTimeout(timer));
+        this.scenarioTimers = [];
+        this.scenarioStops.forEach((stopScenario) => stopScenario());
+        this.scenarioStops = [];
+    }
+
+    setWeights(weights: ActionWeights) {
+        this.weights = weights;
+    }
+
+    /**
+     * Performs the steps at their time, e.g. another user editing item 0 at 2s then deleting list 1 at 3s:
+     * [{ at: 2000, action: { type: 'editTodo', listIndex: 0, itemIndex: 0, newValue: { done: true } } },
+     *  { at: 3000, action: { type: 'deleteList', listIndex: 1 } }]
+     *
+     * @param steps The actions to perform. Steps at the same time are performed in their order
+     * @returns A promise resolved with the result of each step once all of them were answered, in the order of the steps.
+     * If the executor is stopped before, it is resolved with the results of the steps already answered
+     */
+    runScenario(steps: ScenarioStep[]): Promise<ActionResult[]> {
+        return new Promise((resolve) => {
+            const results: (ActionResult | undefined)[] = steps.map(() => undefined);
+            let remaining = steps.length;
+            const complete = () => {
+                this.scenarioStops = this.scenarioStops.filter((stopScenario) => stopScenario !== complete);
+                resolve(results.filter((result): result is ActionResult => result !== undefined));
+            };
+            if (remaining === 0) {
+                complete();
+                return;
+            }
+            this.scenarioStops.push(complete);
+            steps.forEach((step, index) => {
+                const timer = this.scheduler.setTimeout(async () => {
+                    this.scenarioTimers = this.scenarioTimers.filter((otherTimer) => otherTimer !== timer);
+                    results[index] = await this.performScenarioAction(step.action, index);
+                    remaining--;
+                    if (remaining === 0) {
+                        complete();
+                    }
+                }, Math.max(0, step.at));
+                this.scenarioTimers.push(timer);
+            });
+        });
+    }
+
+    private nextExec() {
+        const currentTimeout = (Math.floor(this.random() * (this.maxPeriod - this.minPeriod)) + this.minPeriod) * 1000;
+        this.timer = this.scheduler.setTimeout(() => {
+            this.timer = undefined;
+            this.run();
+        }, currentTimeout);
+    }
+
+    private run() {
+        if (this.running) {
+            this.performRandomAction(this.pickRandomAction());
+            this.nextExec();
+        }
+    }
+
+    private pickRandomAction(): RandomActionName {
+        const weightOf = (action: RandomActionName) => Math.max(0, this.weights[action] ?? 1);
+        const totalWeight = RANDOM_ACTIONS.reduce((total, action) => total + weightOf(action), 0);
+        let remainingWeight = this.random() * totalWeight;
+        for (const action of RANDOM_ACTIONS) {
+            remainingWeight -= weightOf(action);
+            if (remainingWeight < 0) {
+                return action;
+            }
+        }
+        // Every weight is 0
+        return RANDOM_ACTIONS[this.getRandomIndex(RANDOM_ACTIONS)] ?? "addTodo";
+    }
+
+    private performRandomAction(action: RandomActionName, step?: number): Promise<ActionResult> {
+        const actions: Record<RandomActionName, () => Promise<ActionOutcome>> = {
+            moveTodo: () => this.moveTodo(),
+            addTodo: () => this.addTodo(),
+            editTodo: () => this.editTodo(),
+            createList: () => this.createList(),
+            deleteList: () => this.deleteList(),
+            removeTodo: () => this.removeTodo(),
+        };
+        return this.report(action, step, actions[action]);
+    }
+
+    private performScenarioAction(action: ScenarioAction, step: number): Promise<ActionResult> {
+        switch (action.type) {
+            case "random":
+                return this.performRandomAction(action.action ?? this.pickRandomAction(), step);
+            case "createList":
+                return this.report(action.type, step, () => this.api.createList(action.name));
+            case "deleteList":
+                return this.report(action.type, step, () => this.api.deleteList(action.listIndex));
+            case "renameList":
+                return this.report(action.type, step, () => this.api.renameList(action.listIndex, action.name));
+            case "addTodo":
+                return this.report(action.type, step, () => this.api.addTodo(action.listIndex, action.item));
+            case "removeTodo":
+                return this.report(action.type, step, () => this.api.removeTodo(action.listIndex, action.itemIndex));
+            case "moveTodo":
+                return this.report(action.type, step, () =>
+                    this.api.moveTodo(action.listIndex, action.itemIndex, action.destIndex),
+                );
+            case "editTodo":
+                return this.report(action.type, step, () =>
+                    this.api.editTodo(action.listIndex, action.itemIndex, action.newValue),
+                );
+            case "custom":
+                return this.report(action.type, step, () => action.run(this.api));
+        }
+    }
+
+    /**
+     * Performs an action and reports its result to onAction
+     */
+    private async report(
+        action: ActionResult["action"],
+        step: number | undefined,
+        perform: () => Promise<ActionOutcome>,
+    ): Promise<ActionResult> {
+        const result: ActionResult = { action, time: this.scheduler.now(), status: "success" };
+        if (step !== undefined) {
+            result.step = step;
+        }
+        try {
+            const outcome = await perform();
+            if (outcome === undefined) {
+                result.status = "skipped";
+            } else if ('error' in outcome) {
+                result.status = "error";
+                result.error = outcome;
+            }
+        } catch (e) {
+            result.status = "error";
+            if (typeof e === "object" && e !== null && 'error' in e) {
+                result.error = e as ApiResponseError;
+            }
+        }
+        this.onAction?.(result);
+        return result;
+    }
+
+    private getRandomIndex<T>(array: T[]) {
+        return Math.floor(this.random() * array.length);
+    }
+
+    private randomText(length: number): string {
+        let text = "";
+        for(let i = 0; i < length; i++) {
+            text += String.fromCharCode(97 + Math.floor(this.random() * 26));
+        }
+        return text;
+    }
+
+    private async moveTodo(): Promise<ActionOutcome> {
+        const getTodoListsResponse = await this.api.getTodoLists();
+        if ('error' in getTodoListsResponse) {
+            return getTodoListsResponse;
+        }
+        const todoLists = getTodoListsResponse.response;
+        const todoList = todoLists[this.getRandomIndex(todoLists)];
+        const todoListItems = todoList?.items;
+        if (!todoList || !todoListItems || todoListItems.length < 2) {
+            return undefined;
+        }
+        const sourceIndex = this.getRandomIndex(todoListItems);
+        let destIndex = this.getRandomIndex(todoListItems);
+        while (destIndex === sourceIndex) {
+            destIndex = this.getRandomIndex(todoListItems);
+        }
+        const todo = todoListItems[sourceIndex];
+        return todo && this.api.moveTodoById(todoList.id, todo.id, destIndex);
+    }
+
+    private async addTodo(): Promise<ActionOutcome> {
+        const getTodoListsResponse = await this.api.getTodoLists();
+        if ('error' in getTodoListsResponse) {
+            return getTodoListsResponse;
+        }
+        const todoLists = getTodoListsResponse.response;
+        const todoList = todoLists[this.getRandomIndex(todoLists)];
+        if (!todoList) {
+            return undefined;
+        }
+        const newItem = {
+            done: this.random() >= 0.5,
+            description: this.randomText(15),
+        };
+        return this.api.addTodoById(todoList.id, newItem);
+    }
+
+    private async editTodo(): Promise<ActionOutcome> {
+        const getTodoListsResponse = await this.api.getTodoLists();
+        if ('error' in getTodoListsResponse) {
+            return getTodoListsResponse;
+        }
+        const todoLists = getTodoListsResponse.response;
+        const todoList = todoLists[this.getRandomIndex(todoLists)];
+        const todo = todoList?.items[this.getRandomIndex(todoList.items)];
+        if (!todoList || !todo) {
+            return undefined;
+        }
+        // Either toggles the todo or rewrites its description
+        const newValue: TodoPatch = this.random() >= 0.5 ? { done: !todo.done } : { description: this.randomText(15) };
+        return this.api.editTodoById(todoList.id, todo.id, newValue);
+    }
+
+    private async removeTodo(): Promise<ActionOutcome> {
+        const getTodoListsResponse = await this.api.getTodoLists();
+        if ('error' in getTodoListsResponse) {
+            return getTodoListsResponse;
+        }
+        const todoLists = getTodoListsResponse.response;
+        const todoList = todoLists[this.getRandomIndex(todoLists)];
+        const todo = todoList?.items[this.getRandomIndex(todoList.items)];
+        if (!todoList || !todo) {
+            return undefined;
+        }
+        return this.api.removeTodoById(todoList.id, todo.id);
+    }
+
+    private createList(): Promise<ActionOutcome> {
+        return this.api.createList(this.randomText(5));
+    }
+
+    private async deleteList(): Promise<ActionOutcome> {
+        const getTodoListsResponse = await this.api.getTodoLists();
+        if ('error' in getTodoListsResponse) {
+            return getTodoListsResponse;
+        }
+        const todoLists = getTodoListsResponse.response;
+        const todoList = todoLists[this.getRandomIndex(todoLists)];
+        return todoList && this.api.deleteListById(todoList.id);
+    }
+}
+
+/**
+ * Creates an executor acting on its own api, e.g. one created with createTodoApi
+ */
+export function createRandomActionExecutor(options: RandomActionExecutorOptions = {}): RandomActionExecutor {
+    return new RandomActionExecutor(options);
+}
+
+export type { RandomActionExecutor };
+
+export const executor = createRandomActionExecutor();
@@ -0,0 +1,23 @@
+/**
+ * A source of random numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Creates a deterministic random source: two sources created with the same seed return the same sequence
+ *
+ * @param seed Any integer
+ * @returns A random source (mulberry32)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export const defaultRandom: RandomSource = () => Math.random();
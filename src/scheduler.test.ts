@@ -0,0 +1,137 @@
+import { createSeededRandom } from './random';
+import { createVirtualScheduler, realScheduler } from './scheduler';
+import { createTodoApi } from './todo-api';
+import { createFakeSocket } from './fake-socket';
+import { createMemoryStorage } from './storage';
+
+describe('createVirtualScheduler', () => {
+    it('only moves the time when told to', () => {
+        const scheduler = createVirtualScheduler(1000);
+        const callback = jest.fn();
+        scheduler.setTimeout(callback, 100);
+        expect(scheduler.now()).toBe(1000);
+        expect(callback).not.toHaveBeenCalled();
+        scheduler.advanceBy(99);
+        expect(callback).not.toHaveBeenCalled();
+        scheduler.advanceBy(1);
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(scheduler.now()).toBe(1100);
+    });
+
+    it('runs the due timers in order, the first created first when they are due together', () => {
+        const scheduler = createVirtualScheduler();
+        const calls: string[] = [];
+        scheduler.setTimeout(() => calls.push('late'), 50);
+        scheduler.setTimeout(() => calls.push('first'), 10);
+        scheduler.setTimeout(() => calls.push('second'), 10);
+        scheduler.advanceBy(100);
+        expect(calls).toEqual(['first', 'second', 'late']);
+    });
+
+    it('runs the timers created while running, at their own due time', () => {
+        const scheduler = createVirtualScheduler();
+        const times: number[] = [];
+        scheduler.setTimeout(() => {
+            times.push(scheduler.now());
+            scheduler.setTimeout(() => times.push(scheduler.now()), 20);
+        }, 10);
+        scheduler.runAll();
+        expect(times).toEqual([10, 30]);
+        expect(scheduler.pendingCount()).toBe(0);
+    });
+
+    it('does not run the cleared timers', () => {
+        const scheduler = createVirtualScheduler();
+        const callback = jest.fn();
+        const handle = scheduler.setTimeout(callback, 10);
+        scheduler.clearTimeout(handle);
+        scheduler.runAll();
+        expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('aborts runAll when the timers reschedule themselves forever', () => {
+        const scheduler = createVirtualScheduler();
+        const loop = () => {
+            scheduler.setTimeout(loop, 1);
+        };
+        loop();
+        expect(() => scheduler.runAll(100)).toThrow('runAll aborted after 100 timers');
+    });
+});
+
+describe('realScheduler', () => {
+    beforeEach(() => {
+        // performance can not be faked on recent Node versions, and is not used by the scheduler
+        jest.useFakeTimers({ doNotFake: ['performance'] });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('honours the Jest fake timers', () => {
+        jest.setSystemTime(5000);
+        const callback = jest.fn();
+        const handle = realScheduler.setTimeout(callback, 100);
+        realScheduler.setTimeout(callback, 200);
+        realScheduler.clearTimeout(handle);
+        jest.advanceTimersByTime(199);
+        expect(callback).not.toHaveBeenCalled();
+        jest.advanceTimersByTime(1);
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(realScheduler.now()).toBe(5200);
+    });
+
+    it('delays the api responses on the Jest fake timers', async () => {
+        const api = createTodoApi({
+            latency: 300,
+            storage: createMemoryStorage(),
+            socket: createFakeSocket(),
+            initialData: [{ name: 'Groceries', items: [] }],
+        });
+        const onResponse = jest.fn();
+        const response = api.getTodoLists().then(onResponse);
+        jest.advanceTimersByTime(299);
+        await Promise.resolve();
+        expect(onResponse).not.toHaveBeenCalled();
+        jest.advanceTimersByTime(1);
+        await response;
+        expect(onResponse).toHaveBeenCalledWith({ response: [expect.objectContaining({ name: 'Groceries' })] });
+    });
+});
+
+describe('createSeededRandom', () => {
+    it('replays the same sequence for the same seed', () => {
+        const random = createSeededRandom(42);
+        const sameSeed = createSeededRandom(42);
+        const values = [random(), random(), random()];
+        expect([sameSeed(), sameSeed(), sameSeed()]).toEqual(values);
+        values.forEach((value) => {
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        });
+        expect(createSeededRandom(43)()).not.toBe(values[0]);
+    });
+
+    it('makes the api answer the same errors and ids for the same seed', async () => {
+        const run = async (seed: number) => {
+            const scheduler = createVirtualScheduler();
+            const api = createTodoApi({
+                scheduler,
+                latency: { min: 0, max: 500 },
+                successRate: 0.5,
+                random: createSeededRandom(seed),
+                storage: createMemoryStorage(),
+                socket: createFakeSocket({ scheduler }),
+            });
+            const results: unknown[] = [];
+            for (let i = 0; i < 10; i++) {
+                const result = api.createListWithId(`List ${i}`).catch((error: unknown) => error);
+                scheduler.runAll();
+                results.push([scheduler.now(), await result]);
+            }
+            return results;
+        };
+        expect(await run(7)).toEqual(await run(7));
+    });
+});
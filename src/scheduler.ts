@@ -0,0 +1,121 @@
+export type TimerHandle = unknown;
+
+/**
+ * The clock and timers used by the api and the executor
+ */
+export type Scheduler = {
+    now: () => number;
+    setTimeout: (callback: () => void, delay: number) => TimerHandle;
+    clearTimeout: (handle: TimerHandle) => void;
+};
+
+/**
+ * Uses the global timers, looked up on each call so that Jest fake timers are honoured
+ */
+export const realScheduler: Scheduler = {
+    now: () => Date.now(),
+    setTimeout: (callback, delay) => setTimeout(callback, delay),
+    clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+type VirtualTimer = {
+    id: number;
+    dueTime: number;
+    callback: () => void;
+};
+
+/**
+ * A scheduler whose time only moves when told to
+ */
+class VirtualScheduler implements Scheduler {
+    private currentTime: number;
+    private timers: VirtualTimer[];
+    private nextTimerId: number;
+
+    constructor(startTime: number) {
+        this.currentTime = startTime;
+        this.timers = [];
+        this.nextTimerId = 0;
+    }
+
+    now = (): number => {
+        return this.currentTime;
+    };
+
+    setTimeout = (callback: () => void, delay: number): TimerHandle => {
+        const id = this.nextTimerId++;
+        this.timers.push({ id, dueTime: this.currentTime + Math.max(0, delay), callback });
+        return id;
+    };
+
+    clearTimeout = (handle: TimerHandle): void => {
+        this.timers = this.timers.filter((timer) => timer.id !== handle);
+    };
+
+    /**
+     * Number of timers waiting to be run
+     */
+    pendingCount(): number {
+        return this.timers.length;
+    }
+
+    /**
+     * Moves the clock forward, running the timers that become due in order
+     *
+     * @param delay Number of milliseconds to move forward
+     */
+    advanceBy(delay: number) {
+        const targetTime = this.currentTime + delay;
+        let timer = this.nextDueTimer(targetTime);
+        while (timer) {
+            this.currentTime = timer.dueTime;
+            this.runTimer(timer);
+            timer = this.nextDueTimer(targetTime);
+        }
+        this.currentTime = targetTime;
+    }
+
+    /**
+     * Runs timers until none is left, including the ones created while running
+     *
+     * @param maxTimers Guard against timers that reschedule themselves forever
+     */
+    runAll(maxTimers = 10000) {
+        for (let i = 0; i < maxTimers; i++) {
+            const timer = this.nextDueTimer(Infinity);
+            if (!timer) {
+                return;
+            }
+            this.currentTime = timer.dueTime;
+            this.runTimer(timer);
+        }
+        throw new Error(`runAll aborted after ${maxTimers} timers`);
+    }
+
+    private nextDueTimer(targetTime: number): VirtualTimer | undefined {
+        // Timers are kept in creation order: the first one with the smallest due time wins
+        let next: VirtualTimer | undefined;
+        this.timers.forEach((timer) => {
+            if (timer.dueTime <= targetTime && (!next || timer.dueTime < next.dueTime)) {
+                next = timer;
+            }
+        });
+        return next;
+    }
+
+    private runTimer(timer: VirtualTimer) {
+        this.timers = this.timers.filter((currentTimer) => currentTimer !== timer);
+        timer.callback();
+    }
+}
+
+/**
+ * Creates a scheduler driven manually with advanceBy/runAll, for reproducible runs
+ *
+ * @param startTime Initial value of now(), in milliseconds
+ */
+export function createVirtualScheduler(startTime = 0): VirtualScheduler {
+    return new VirtualScheduler(startTime);
+}
+
+export type { VirtualScheduler };
@@ -0,0 +1,23 @@
+import { createTodoServer } from './todo-server';
+
+/**
+ * Starts a TodoServer from the command line, e.g. `PORT=4000 node dist/server.js`.
+ * Reads PORT, HOST and TODO_DATA_FILE, see TodoServerOptions
+ */
+const server = createTodoServer({
+    port: Number(process.env['PORT'] ?? 3000),
+    host: process.env['HOST'] ?? '127.0.0.1',
+    dataFile: process.env['TODO_DATA_FILE'] ?? 'jamespot-todo.json',
+});
+
+server.listen().then(
+    (url) => console.log(`todo server listening on ${url}, socket on ${url.replace(/^http/, 'ws')}/socket`),
+    (error: unknown) => {
+        console.error('could not start the todo server', error);
+        process.exit(1);
+    },
+);
+
+process.on('SIGINT', () => {
+    server.close().then(() => process.exit(0));
+});
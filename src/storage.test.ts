@@ -0,0 +1,70 @@
+import {
+    createDefaultStorage,
+    createLocalStorage,
+    createMemoryStorage,
+    createSessionStorage,
+    StorageAdapter,
+} from './storage';
+
+function createWebStorage(): Storage {
+    const items = new Map<string, string>();
+    return {
+        get length() {
+            return items.size;
+        },
+        clear: () => items.clear(),
+        getItem: (key) => items.get(key) ?? null,
+        key: (index) => [...items.keys()][index] ?? null,
+        removeItem: (key) => void items.delete(key),
+        setItem: (key, value) => void items.set(key, value),
+    };
+}
+
+function roundTrip(storage: StorageAdapter): (string | null)[] {
+    const loaded = [storage.load()];
+    storage.save('{"schemaVersion":3}');
+    return [...loaded, storage.load()];
+}
+
+describe('storage adapters', () => {
+    afterEach(() => {
+        Reflect.deleteProperty(globalThis, 'window');
+    });
+
+    function stubWindow(window: object) {
+        Object.defineProperty(globalThis, 'window', { value: window, configurable: true });
+    }
+
+    it('keeps the payload in memory, starting from the given one', () => {
+        expect(roundTrip(createMemoryStorage())).toEqual([null, '{"schemaVersion":3}']);
+        expect(createMemoryStorage('[]').load()).toBe('[]');
+    });
+
+    it('persists in localStorage or sessionStorage under the given key', () => {
+        const localStorage = createWebStorage();
+        const sessionStorage = createWebStorage();
+        stubWindow({ localStorage, sessionStorage });
+        expect(roundTrip(createLocalStorage())).toEqual([null, '{"schemaVersion":3}']);
+        expect(localStorage.getItem('jamespot-todo-tech')).toBe('{"schemaVersion":3}');
+        roundTrip(createSessionStorage('todos'));
+        expect(sessionStorage.getItem('todos')).toBe('{"schemaVersion":3}');
+        expect(sessionStorage.getItem('jamespot-todo-tech')).toBeNull();
+    });
+
+    it('defaults to localStorage in a browser', () => {
+        const localStorage = createWebStorage();
+        stubWindow({ localStorage });
+        createDefaultStorage('todos').save('[]');
+        expect(localStorage.getItem('todos')).toBe('[]');
+    });
+
+    it('defaults to memory without a window, or when localStorage is disabled', () => {
+        expect(roundTrip(createDefaultStorage('todos'))).toEqual([null, '{"schemaVersion":3}']);
+        stubWindow({
+            get localStorage(): Storage {
+                throw new Error('access denied');
+            },
+        });
+        expect(roundTrip(createDefaultStorage('todos'))).toEqual([null, '{"schemaVersion":3}']);
+    });
+});
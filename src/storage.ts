@@ -0,0 +1,57 @@
+/**
+ * Where an api persists its lists, as a serialized payload.
+ * Both methods are synchronous so that a change is persisted, or rolled back when saving fails, before it is published
+ * on the socket. They throw when the underlying storage fails.
+ * An asynchronous store, e.g. IndexedDB, can not be used as is: read its payload before creating the api and start from
+ * it with createMemoryStorage, then write the payloads to it from save without waiting. Its write errors are then
+ * neither reported by the api nor rolled back
+ */
+export type StorageAdapter = {
+    /** @returns The persisted payload, null when nothing was persisted yet */
+    load: () => string | null;
+    save: (payload: string) => void;
+};
+
+/**
+ * Keeps the payload in memory: the data lives as long as the adapter
+ *
+ * @param initialPayload A payload to start from, e.g. a fixture
+ */
+export function createMemoryStorage(initialPayload: string | null = null): StorageAdapter {
+    let payload = initialPayload;
+    return {
+        load: () => payload,
+        save: (newPayload) => {
+            payload = newPayload;
+        },
+    };
+}
+
+function createWebStorage(getStorage: () => Storage, key: string): StorageAdapter {
+    return {
+        load: () => getStorage().getItem(key),
+        save: (payload) => getStorage().setItem(key, payload),
+    };
+}
+
+export function createLocalStorage(key = 'jamespot-todo-tech'): StorageAdapter {
+    return createWebStorage(() => window.localStorage, key);
+}
+
+export function createSessionStorage(key = 'jamespot-todo-tech'): StorageAdapter {
+    return createWebStorage(() => window.sessionStorage, key);
+}
+
+/**
+ * localStorage when running in a browser, memory otherwise
+ */
+export function createDefaultStorage(key: string): StorageAdapter {
+    try {
+        if (typeof window !== 'undefined' && window.localStorage) {
+            return createLocalStorage(key);
+        }
+    } catch (e) {
+        // Accessing localStorage throws when it is disabled
+    }
+    return createMemoryStorage();
+}
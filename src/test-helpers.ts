@@ -0,0 +1,67 @@
+import { VirtualScheduler } from './scheduler';
+import { createMemoryStorage } from './storage';
+import { ApiResponseError, ApiResponseWrapper, createTodoApi, TodoApi, TodoApiOptions } from './todo-api';
+
+/**
+ * Runs the timers of the scheduler until the call is answered
+ *
+ * @returns The response, or the ApiResponseError the call was rejected with
+ */
+export async function settle<T>(
+    scheduler: VirtualScheduler,
+    promise: Promise<ApiResponseWrapper<T>>,
+): Promise<ApiResponseWrapper<T>> {
+    const state: { result?: ApiResponseWrapper<T> } = {};
+    promise.then(
+        (response) => (state.result = response),
+        (error: ApiResponseError) => (state.result = error),
+    );
+    // The middlewares may only call the api after a few promise callbacks
+    for (let i = 0; i < 100 && !state.result; i++) {
+        scheduler.runAll();
+        await new Promise((resolve) => setImmediate(resolve));
+    }
+    if (!state.result) {
+        throw new Error('the call was not answered');
+    }
+    return state.result;
+}
+
+/**
+ * @returns The response of a successful call, throws for an ApiResponseError
+ */
+export function responseOf<T>(result: ApiResponseWrapper<T>): T {
+    if ('error' in result) {
+        throw new Error(`unexpected error ${result.error.code}: ${result.error.description}`);
+    }
+    return result.response;
+}
+
+/**
+ * @returns The code of an ApiResponseError, undefined for a successful call
+ */
+export function errorCode(result: ApiResponseWrapper<unknown>): number | undefined {
+    return 'error' in result ? result.error.code : undefined;
+}
+
+/**
+ * Creates an api without any list, persisted in its own memory storage and answering immediately
+ */
+export function createTestApi(scheduler: VirtualScheduler, options: TodoApiOptions = {}): TodoApi {
+    return createTodoApi({ scheduler, latency: 0, storage: createMemoryStorage(), initialData: [], ...options });
+}
+
+/**
+ * Creates an api like createTestApi, with a single empty list
+ *
+ * @returns The api, and the id of its list
+ */
+export async function createTestApiWithList(
+    scheduler: VirtualScheduler,
+    options: TodoApiOptions = {},
+    name = 'List',
+): Promise<{ api: TodoApi; listId: string }> {
+    const api = createTestApi(scheduler, options);
+    const listId = responseOf(await settle(scheduler, api.createListWithId(name)));
+    return { api, listId };
+}
@@ -0,0 +1,913 @@
+import { socket as sharedSocket, SocketMessage } from './fake-socket';
+import { DataFormat } from './import-export';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { createVirtualScheduler, VirtualScheduler } from './scheduler';
+import { createMemoryStorage } from './storage';
+import { createTestApi, createTestApiWithList, errorCode, responseOf, settle } from './test-helpers';
+import {
+    BatchOperation,
+    createTodoApi,
+    Todo,
+    TodoApi,
+    TodoApiOptions,
+    TodoInput,
+    TodoList,
+    TodoPatch,
+} from './todo-api';
+
+describe('TodoApi', () => {
+    let scheduler: VirtualScheduler;
+
+    function setup(options: TodoApiOptions = {}): TodoApi {
+        return createTodoApi({ scheduler, latency: 0, ...options });
+    }
+
+    beforeEach(() => {
+        scheduler = createVirtualScheduler();
+    });
+
+    describe('createTodoApi', () => {
+        it('creates apis that share neither their lists nor their socket', async () => {
+            const sharedMessages = jest.fn();
+            sharedSocket.addListener(sharedMessages);
+            const api = setup();
+            const other = setup();
+            const otherMessages = jest.fn();
+            other.socket.addListener(otherMessages);
+            await settle(scheduler, api.createListWithId('Groceries'));
+            const names = responseOf(await settle(scheduler, other.getTodoLists())).map((todoList) => todoList.name);
+            expect(names).toEqual(['my first list']);
+            expect(api.socket).not.toBe(other.socket);
+            expect(api.socket).not.toBe(sharedSocket);
+            expect(otherMessages).not.toHaveBeenCalled();
+            expect(sharedMessages).not.toHaveBeenCalled();
+            sharedSocket.removeListener(sharedMessages);
+        });
+
+        it('loads the lists persisted by another api in the given storage', async () => {
+            const storage = createMemoryStorage();
+            await settle(scheduler, setup({ storage, initialData: [] }).createListWithId('Groceries'));
+            const lists = responseOf(await settle(scheduler, setup({ storage }).getTodoLists()));
+            expect(lists.map((todoList) => todoList.name)).toEqual(['Groceries']);
+        });
+
+        it('migrates the bare array of lists saved in localStorage by the first versions', async () => {
+            const legacyLists = [
+                {
+                    name: 'Groceries',
+                    items: [
+                        { description: 'Milk', done: true },
+                        { description: 'Bread', done: false },
+                    ],
+                },
+            ];
+            const items = new Map([['jamespot-todo-tech', JSON.stringify(legacyLists)]]);
+            const localStorage = {
+                getItem: (key: string) => items.get(key) ?? null,
+                setItem: (key: string, value: string) => void items.set(key, value),
+            };
+            Object.defineProperty(globalThis, 'window', { value: { localStorage }, configurable: true });
+            try {
+                const api = setup({ storageKey: 'jamespot-todo-tech' });
+                const lists = responseOf(await settle(scheduler, api.getTodoLists()));
+                const now = new Date(scheduler.now()).toISOString();
+                expect(lists).toEqual([
+                    {
+                        id: expect.any(String),
+                        name: 'Groceries',
+                        version: 1,
+                        items: [
+                            {
+                                id: expect.any(String),
+                                description: 'Milk',
+                                done: true,
+                                version: 1,
+                                createdAt: now,
+                                updatedAt: now,
+                                completedAt: now,
+                            },
+                            {
+                                id: expect.any(String),
+                                description: 'Bread',
+                                done: false,
+                                version: 1,
+                                createdAt: now,
+                                updatedAt: now,
+                            },
+                        ],
+                    },
+                ]);
+                const ids = [lists[0]?.id, ...(lists[0]?.items.map((todo) => todo.id) ?? [])];
+                expect(new Set(ids).size).toBe(3);
+                expect(JSON.parse(items.get('jamespot-todo-tech') ?? '')).toEqual({
+                    schemaVersion: CURRENT_SCHEMA_VERSION,
+                    lists,
+                    trash: { lists: [], todos: [] },
+                });
+            } finally {
+                Reflect.deleteProperty(globalThis, 'window');
+            }
+        });
+    });
+
+    describe('sessions', () => {
+        it('tags the messages with the session and request, and skips the own echoes of a listener', async () => {
+            const { api, listId } = await createTestApiWithList(scheduler);
+            const tab = api.session('tab');
+            const other = api.session('other');
+            const tabMessages = jest.fn<void, [SocketMessage]>();
+            const otherMessages = jest.fn<void, [SocketMessage]>();
+            api.socket.addListener(tabMessages, { clientId: 'tab', skipOwnEchoes: true });
+            api.socket.addListener(otherMessages, { clientId: 'other', skipOwnEchoes: true });
+            await settle(scheduler, tab.renameListById(listId, 'Groceries'));
+            await settle(scheduler, other.renameListById(listId, 'Shopping', { correlationId: 'rename' }));
+            expect(tabMessages.mock.calls.map(([message]) => message.originClientId)).toEqual(['other']);
+            expect(otherMessages.mock.calls.map(([message]) => message.originClientId)).toEqual(['tab']);
+            expect(otherMessages.mock.calls[0]?.[0].correlationId).toBe('tab-0');
+            expect(tabMessages.mock.calls[0]?.[0].correlationId).toBe('rename');
+        });
+    });
+
+    describe('versions', () => {
+        let api: TodoApi;
+        let listId: string;
+        let todoId: string;
+
+        beforeEach(async () => {
+            ({ api, listId } = await createTestApiWithList(scheduler));
+            todoId = responseOf(await settle(scheduler, api.addTodoById(listId, { description: 'Milk', done: false })));
+        });
+
+        it('edits a todo that still has the expected version, and answers a 409 with the current one otherwise', async () => {
+            const edit = (description: string) => {
+                return settle(scheduler, api.editTodoById(listId, todoId, { description }, { expectedVersion: 1 }));
+            };
+            responseOf(await edit('Oat milk'));
+            const result = await edit('Soy milk');
+            expect(errorCode(result)).toBe(409);
+            expect(result).toMatchObject({ error: { current: { id: todoId, description: 'Oat milk', version: 2 } } });
+            const todoList = responseOf(await settle(scheduler, api.getTodoList(listId)));
+            expect(todoList.items.map((todo) => todo.description)).toEqual(['Oat milk']);
+        });
+
+        it('keeps a list or a todo deleted with a stale version', async () => {
+            const removed = await settle(scheduler, api.removeTodoById(listId, todoId, { expectedVersion: 2 }));
+            expect(removed).toMatchObject({ error: { code: 409, current: { id: todoId, version: 1 } } });
+            const deleted = await settle(scheduler, api.deleteListById(listId, { expectedVersion: 1 }));
+            expect(deleted).toMatchObject({ error: { code: 409, current: { id: listId, version: 2 } } });
+            const todoList = responseOf(await settle(scheduler, api.getTodoList(listId)));
+            expect(todoList.items.map((todo) => todo.id)).toEqual([todoId]);
+        });
+
+        it('rejects a whole batch when one of its operations has a stale version', async () => {
+            const result = await settle(
+                scheduler,
+                api.batch([
+                    { type: 'renameList', listId, name: 'Shopping', expectedVersion: 2 },
+                    { type: 'editTodo', listId, todoId, newValue: { done: true }, expectedVersion: 2 },
+                ]),
+            );
+            expect(result).toMatchObject({
+                error: { code: 409, operationIndex: 1, current: { id: todoId, done: false, version: 1 } },
+            });
+            const todoList = responseOf(await settle(scheduler, api.getTodoList(listId)));
+            expect(todoList).toMatchObject({ name: 'List', version: 2 });
+        });
+    });
+
+    describe('storage', () => {
+        const initialData = [{ name: 'Inbox', items: [] }];
+
+        async function listNames(api: TodoApi): Promise<string[]> {
+            return responseOf(await settle(scheduler, api.getTodoLists())).map((todoList) => todoList.name);
+        }
+
+        it('starts from the initial data when the payload is corrupt, and leaves it untouched until a change', async () => {
+            const storage = createMemoryStorage('{"schemaVersion":');
+            const onStorageError = jest.fn();
+            const api = createTestApi(scheduler, { storage, onStorageError, initialData });
+            expect(api.getStorageError()).toMatchObject({ error: { code: 500 } });
+            expect(onStorageError).toHaveBeenCalledWith(api.getStorageError());
+            expect(await listNames(api)).toEqual(['Inbox']);
+            expect(storage.load()).toBe('{"schemaVersion":');
+            await settle(scheduler, api.createListWithId('Groceries'));
+            expect(JSON.parse(storage.load() ?? '')).toMatchObject({
+                lists: [{ name: 'Inbox' }, { name: 'Groceries' }],
+            });
+        });
+
+        it('lists the invalid fields of a payload, and rejects an unknown schema version', () => {
+            const invalidList = { id: 'l1', name: 5, version: 1, items: [] };
+            const invalid = JSON.stringify({ schemaVersion: 3, lists: [invalidList], trash: { lists: [], todos: [] } });
+            const api = createTestApi(scheduler, { storage: createMemoryStorage(invalid) });
+            expect(api.getStorageError()).toMatchObject({ error: { code: 500, fields: [{ field: 'lists[0].name' }] } });
+            const future = JSON.stringify({ schemaVersion: 99, lists: [] });
+            const futureApi = createTestApi(scheduler, { storage: createMemoryStorage(future) });
+            expect(futureApi.getStorageError()?.error.description).toContain('unsupported schema version 99');
+        });
+
+        it('reports a storage that can not be read with a 503', async () => {
+            const storage = createMemoryStorage();
+            jest.spyOn(storage, 'load').mockImplementation(() => {
+                throw new Error('unavailable');
+            });
+            const api = createTestApi(scheduler, { storage, initialData });
+            expect(api.getStorageError()).toMatchObject({ error: { code: 503 } });
+            expect(await listNames(api)).toEqual(['Inbox']);
+        });
+
+        it('rejects a change that can not be saved with a 507, without applying it', async () => {
+            const storage = createMemoryStorage();
+            const onStorageError = jest.fn();
+            const api = createTestApi(scheduler, { storage, onStorageError, initialData });
+            jest.spyOn(storage, 'save').mockImplementation(() => {
+                throw new Error('quota exceeded');
+            });
+            expect(errorCode(await settle(scheduler, api.createListWithId('Groceries')))).toBe(507);
+            expect(onStorageError).toHaveBeenCalledWith(
+                expect.objectContaining({ error: expect.objectContaining({ code: 507 }) }),
+            );
+            expect(api.getStorageError()?.error.code).toBe(507);
+            expect(await listNames(api)).toEqual(['Inbox']);
+        });
+    });
+
+    describe('validation', () => {
+        let api: TodoApi;
+        let listId: string;
+        let messages: jest.Mock<void, [SocketMessage]>;
+
+        beforeEach(async () => {
+            ({ api, listId } = await createTestApiWithList(scheduler));
+            messages = jest.fn();
+            api.socket.addListener(messages);
+        });
+
+        it('rejects an invalid todo with a 422 listing the fields, without adding it', async () => {
+            const item = { description: '', done: 'no', dueDate: 'tomorrow' } as unknown as TodoInput;
+            const result = await settle(scheduler, api.addTodoById(listId, item));
+            expect(result).toMatchObject({
+                error: { code: 422, fields: [{ field: 'done' }, { field: 'dueDate' }] },
+            });
+            expect(responseOf(await settle(scheduler, api.getTodoList(listId))).items).toEqual([]);
+            expect(messages).not.toHaveBeenCalled();
+        });
+
+        it('rejects an invalid patch or list name with a 422', async () => {
+            const todoId = responseOf(
+                await settle(scheduler, api.addTodoById(listId, { description: 'Milk', done: false })),
+            );
+            const patch = { priority: 'urgent' } as unknown as TodoPatch;
+            expect(await settle(scheduler, api.editTodoById(listId, todoId, patch))).toMatchObject({
+                error: { code: 422, fields: [{ field: 'priority' }] },
+            });
+            expect(errorCode(await settle(scheduler, api.renameListById(listId, ' '.repeat(101))))).toBe(422);
+            expect(errorCode(await settle(scheduler, api.createListWithId(5 as unknown as string)))).toBe(422);
+            expect(messages).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('partial edits', () => {
+        let api: TodoApi;
+        let listId: string;
+        let todoId: string;
+        let messages: jest.Mock<void, [SocketMessage]>;
+
+        async function todo(): Promise<Todo | undefined> {
+            return responseOf(await settle(scheduler, api.getTodoList(listId))).items[0];
+        }
+
+        beforeEach(async () => {
+            ({ api, listId } = await createTestApiWithList(scheduler));
+            const item = { description: 'Milk', done: false, dueDate: '2024-05-02', tags: ['dairy'] };
+            todoId = responseOf(await settle(scheduler, api.addTodoById(listId, item)));
+            messages = jest.fn();
+            api.socket.addListener(messages);
+            scheduler.advanceBy(1000);
+        });
+
+        it('only changes the given fields, removes those set to null, and publishes their names', async () => {
+            responseOf(await settle(scheduler, api.editTodoById(listId, todoId, { priority: 'high', dueDate: null })));
+            const edited = await todo();
+            expect(edited).toMatchObject({ description: 'Milk', done: false, tags: ['dairy'], priority: 'high' });
+            expect(edited).not.toHaveProperty('dueDate');
+            expect(edited).toMatchObject({ version: 2, updatedAt: new Date(scheduler.now()).toISOString() });
+            expect(messages.mock.calls[0]?.[0]).toMatchObject({
+                type: 'editTodo',
+                message: { itemId: todoId, newValue: edited, changedFields: ['dueDate', 'priority'] },
+            });
+        });
+
+        it('sets completedAt with done, and lists it as changed', async () => {
+            responseOf(await settle(scheduler, api.editTodoById(listId, todoId, { done: true })));
+            expect(await todo()).toMatchObject({ done: true, completedAt: new Date(scheduler.now()).toISOString() });
+            expect(messages.mock.calls[0]?.[0]).toMatchObject({ message: { changedFields: ['done', 'completedAt'] } });
+            responseOf(await settle(scheduler, api.editTodoById(listId, todoId, { done: false })));
+            expect(await todo()).not.toHaveProperty('completedAt');
+        });
+
+        it('neither publishes nor versions a patch that changes nothing', async () => {
+            responseOf(
+                await settle(scheduler, api.editTodoById(listId, todoId, { description: 'Milk', tags: ['dairy'] })),
+            );
+            expect(await todo()).toMatchObject({ version: 1 });
+            expect(messages).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('lists', () => {
+        let api: TodoApi;
+        let listIds: string[];
+        let messages: jest.Mock<void, [SocketMessage]>;
+
+        async function lists(): Promise<TodoList[]> {
+            return responseOf(await settle(scheduler, api.getTodoLists()));
+        }
+
+        beforeEach(async () => {
+            api = createTestApi(scheduler, {
+                users: [
+                    { id: 'ann', name: 'Ann' },
+                    { id: 'bob', name: 'Bob' },
+                ],
+            });
+            listIds = [];
+            for (const name of ['Groceries', 'Chores', 'Errands']) {
+                listIds.push(responseOf(await settle(scheduler, api.createListWithId(name))));
+            }
+            messages = jest.fn();
+            api.socket.addListener(messages);
+        });
+
+        it('renames a list and publishes its new version', async () => {
+            const [listId = ''] = listIds;
+            responseOf(await settle(scheduler, api.renameListById(listId, 'Shopping')));
+            expect((await lists())[0]).toMatchObject({ name: 'Shopping', version: 2 });
+            expect(messages.mock.calls[0]?.[0]).toMatchObject({
+                type: 'renameList',
+                message: { listIndex: 0, listId, name: 'Shopping', listVersion: 2 },
+            });
+            expect(errorCode(await settle(scheduler, api.renameListById('unknown', 'Shopping')))).toBe(404);
+        });
+
+        it('moves a list to a position and publishes both indexes', async () => {
+            const [listId = ''] = listIds;
+            responseOf(await settle(scheduler, api.moveListById(listId, 2)));
+            expect((await lists()).map((todoList) => todoList.name)).toEqual(['Chores', 'Errands', 'Groceries']);
+            expect(messages.mock.calls[0]?.[0]).toMatchObject({
+                type: 'moveList',
+                message: { listId, sourceIndex: 0, destIndex: 2 },
+            });
+            expect(errorCode(await settle(scheduler, api.moveListById(listId, 3)))).toBe(400);
+            expect(errorCode(await settle(scheduler, api.moveListById('unknown', 0)))).toBe(404);
+        });
+
+        it('moves a todo to a position in another list, and versions both lists', async () => {
+            const [sourceListId = '', destListId = ''] = listIds;
+            const todoId = responseOf(
+                await settle(scheduler, api.addTodoById(sourceListId, { description: 'Milk', done: false })),
+            );
+            await settle(scheduler, api.addTodoById(destListId, { description: 'Dishes', done: false }));
+            messages.mockClear();
+            responseOf(await settle(scheduler, api.moveTodoToListById(sourceListId, todoId, destListId, 0)));
+            const [sourceList, destList] = await lists();
+            expect(sourceList).toMatchObject({ items: [], version: 3 });
+            expect(destList?.items.map((todo) => todo.description)).toEqual(['Milk', 'Dishes']);
+            expect(destList?.version).toBe(3);
+            expect(messages.mock.calls[0]?.[0]).toMatchObject({
+                type: 'moveTodoToList',
+                message: {
+                    itemId: todoId,
+                    sourceListIndex: 0,
+                    sourceIndex: 0,
+                    sourceListVersion: 3,
+                    destListIndex: 1,
+                    destIndex: 0,
+                    destListVersion: 3,
+                },
+            });
+        });
+
+        it('rejects a move of a todo that can not be found, or to a position out of the list', async () => {
+            const [sourceListId = '', destListId = ''] = listIds;
+            const todoId = responseOf(
+                await settle(scheduler, api.addTodoById(sourceListId, { description: 'Milk', done: false })),
+            );
+            const move = (todo: string, list: string, destIndex: number) => {
+                return settle(scheduler, api.moveTodoToListById(sourceListId, todo, list, destIndex));
+            };
+            expect(errorCode(await move('unknown', destListId, 0))).toBe(404);
+            expect(errorCode(await move(todoId, 'unknown', 0))).toBe(404);
+            expect(errorCode(await move(todoId, destListId, 1))).toBe(400);
+            expect((await lists())[0]?.items.map((todo) => todo.id)).toEqual([todoId]);
+        });
+
+        it('only lets the users allowed to write in the lists rename and move them', async () => {
+            const [listId = ''] = listIds;
+            const ann = api.asUser('ann');
+            const bob = api.asUser('bob');
+            const diaryId = responseOf(await settle(scheduler, ann.createListWithId('Diary')));
+            await settle(scheduler, ann.setListMembers(diaryId, [{ userId: 'bob', role: 'read' }]));
+            const todoId = responseOf(
+                await settle(scheduler, bob.addTodoById(listId, { description: 'Milk', done: false })),
+            );
+            messages.mockClear();
+            expect(errorCode(await settle(scheduler, bob.renameListById(diaryId, 'Journal')))).toBe(403);
+            expect(errorCode(await settle(scheduler, bob.moveListById(diaryId, 0)))).toBe(403);
+            expect(errorCode(await settle(scheduler, bob.moveTodoToListById(listId, todoId, diaryId, 0)))).toBe(403);
+            expect(messages).not.toHaveBeenCalled();
+            responseOf(await settle(scheduler, ann.moveTodoToListById(listId, todoId, diaryId, 0)));
+        });
+    });
+
+    describe('batch', () => {
+        let api: TodoApi;
+        let listId: string;
+
+        function descriptions(lists: TodoList[]): string[] | undefined {
+            return lists.find((todoList) => todoList.id === listId)?.items.map((todo) => todo.description);
+        }
+
+        beforeEach(async () => {
+            ({ api, listId } = await createTestApiWithList(scheduler, {}, 'Groceries'));
+        });
+
+        it('applies the operations in order and publishes them as one message', async () => {
+            const messages = jest.fn();
+            api.socket.addListener(messages);
+            const results = await settle(
+                scheduler,
+                api.batch([
+                    { type: 'addTodo', listId, item: { description: 'Milk', done: false } },
+                    { type: 'renameList', listId, name: 'Shopping' },
+                ]),
+            );
+            expect(responseOf(results)).toEqual([expect.any(String), true]);
+            const lists = responseOf(await settle(scheduler, api.getTodoLists()));
+            expect(lists).toMatchObject([{ name: 'Shopping', items: [{ description: 'Milk' }] }]);
+            expect(messages).toHaveBeenCalledTimes(1);
+            expect(messages.mock.calls[0]?.[0]).toMatchObject({
+                type: 'batch',
+                message: { changes: [{ type: 'addToDo' }, { type: 'renameList' }] },
+            });
+        });
+
+        it('rolls back the operations applied before a failing one', async () => {
+            const messages = jest.fn();
+            api.socket.addListener(messages);
+            const result = await settle(
+                scheduler,
+                api.batch([
+                    { type: 'addTodo', listId, item: { description: 'Milk', done: false } },
+                    { type: 'renameList', listId, name: 'Shopping' },
+                    { type: 'removeTodo', listId, todoId: 'unknown' },
+                ]),
+            );
+            expect(result).toMatchObject({ error: { operationIndex: 2 } });
+            const lists = responseOf(await settle(scheduler, api.getTodoLists()));
+            expect(lists).toMatchObject([{ id: listId, name: 'Groceries', version: 1 }]);
+            expect(descriptions(lists)).toEqual([]);
+            expect(messages).not.toHaveBeenCalled();
+        });
+
+        it('leaves the storage untouched when a change can not be saved', async () => {
+            const storage = createMemoryStorage();
+            api = createTestApi(scheduler, { storage });
+            listId = responseOf(await settle(scheduler, api.createListWithId('Groceries')));
+            const saved = storage.load();
+            jest.spyOn(storage, 'save').mockImplementation(() => {
+                throw new Error('quota exceeded');
+            });
+            const result = await settle(
+                scheduler,
+                api.batch([
+                    { type: 'addTodo', listId, item: { description: 'Milk', done: false } },
+                    { type: 'addTodo', listId, item: { description: 'Bread', done: false } },
+                ]),
+            );
+            expect(errorCode(result)).toBe(507);
+            expect(storage.load()).toBe(saved);
+            expect(descriptions(responseOf(await settle(scheduler, api.getTodoLists())))).toEqual([]);
+        });
+
+        it('rejects a malformed operation before applying any', async () => {
+            const result = await settle(
+                scheduler,
+                api.batch([
+                    { type: 'addTodo', listId, item: { description: 'Milk', done: false } },
+                    { type: 'renameList', listId } as unknown as BatchOperation,
+                ]),
+            );
+            expect(errorCode(result)).toBe(422);
+            expect(descriptions(responseOf(await settle(scheduler, api.getTodoLists())))).toEqual([]);
+        });
+    });
+
+    describe('undo and redo', () => {
+        let api: TodoApi;
+        let session: TodoApi;
+        let listId: string;
+        let todoIds: string[];
+
+        async function descriptions(): Promise<string[]> {
+            const todoList = responseOf(await settle(scheduler, api.getTodoList(listId)));
+            return todoList.items.map((todo) => todo.description);
+        }
+
+        beforeEach(async () => {
+            api = createTestApi(scheduler, {
+                initialData: [
+                    {
+                        name: 'Groceries',
+                        items: ['Milk', 'Bread', 'Eggs'].map((description) => {
+                            return { description, done: false };
+                        }),
+                    },
+                ],
+            });
+            const [todoList] = responseOf(await settle(scheduler, api.getTodoLists()));
+            listId = todoList?.id ?? '';
+            todoIds = todoList?.items.map((todo) => todo.id) ?? [];
+            session = api.session('tab');
+        });
+
+        it('moves a todo back, then moves it again', async () => {
+            await settle(scheduler, session.moveTodoById(listId, todoIds[0] ?? '', 2));
+            expect(await descriptions()).toEqual(['Bread', 'Eggs', 'Milk']);
+            responseOf(await settle(scheduler, session.undo()));
+            expect(await descriptions()).toEqual(['Milk', 'Bread', 'Eggs']);
+            expect(session.canRedo()).toBe(true);
+            responseOf(await settle(scheduler, session.redo()));
+            expect(await descriptions()).toEqual(['Bread', 'Eggs', 'Milk']);
+        });
+
+        it('puts a removed todo back at its index, with its id, and takes it out of the trash', async () => {
+            await settle(scheduler, session.removeTodoById(listId, todoIds[1] ?? ''));
+            expect(responseOf(await settle(scheduler, api.getTrash())).todos).toHaveLength(1);
+            responseOf(await settle(scheduler, session.undo()));
+            const todoList = responseOf(await settle(scheduler, api.getTodoList(listId)));
+            expect(todoList.items.map((todo) => todo.id)).toEqual(todoIds);
+            expect(responseOf(await settle(scheduler, api.getTrash())).todos).toEqual([]);
+        });
+
+        it('restores a deleted list with its todos', async () => {
+            await settle(scheduler, session.deleteListById(listId));
+            responseOf(await settle(scheduler, session.undo()));
+            expect(await descriptions()).toEqual(['Milk', 'Bread', 'Eggs']);
+        });
+
+        it('only undoes the changes of the session', async () => {
+            await settle(scheduler, session.removeTodoById(listId, todoIds[0] ?? ''));
+            const other = api.session('other');
+            expect(other.canUndo()).toBe(false);
+            expect(errorCode(await settle(scheduler, other.undo()))).toBe(400);
+            expect(await descriptions()).toEqual(['Bread', 'Eggs']);
+        });
+
+        it('clears the redo history on a new change', async () => {
+            await settle(scheduler, session.moveTodoById(listId, todoIds[0] ?? '', 2));
+            await settle(scheduler, session.undo());
+            await settle(scheduler, session.renameListById(listId, 'Shopping'));
+            expect(session.canRedo()).toBe(false);
+        });
+
+        it('drops a change that can no longer be reverted', async () => {
+            await settle(scheduler, session.editTodoById(listId, todoIds[0] ?? '', { done: true }));
+            await settle(scheduler, api.session('other').removeTodoById(listId, todoIds[0] ?? ''));
+            expect(errorCode(await settle(scheduler, session.undo()))).toBe(404);
+            expect(session.canUndo()).toBe(false);
+        });
+
+        it('keeps the change to undo when reverting it can not be saved', async () => {
+            const storage = createMemoryStorage();
+            api = createTestApi(scheduler, { storage });
+            session = api.session('tab');
+            listId = responseOf(await settle(scheduler, session.createListWithId('Groceries')));
+            await settle(scheduler, session.renameListById(listId, 'Shopping'));
+            const save = jest.spyOn(storage, 'save').mockImplementation(() => {
+                throw new Error('quota exceeded');
+            });
+            expect(errorCode(await settle(scheduler, session.undo()))).toBe(507);
+            expect(session.canUndo()).toBe(true);
+            expect(session.canRedo()).toBe(false);
+            save.mockRestore();
+            responseOf(await settle(scheduler, session.undo()));
+            expect(responseOf(await settle(scheduler, api.getTodoList(listId))).name).toBe('Groceries');
+            expect(session.canRedo()).toBe(true);
+        });
+    });
+
+    describe('trash', () => {
+        let api: TodoApi;
+        let listId: string;
+
+        beforeEach(async () => {
+            api = createTestApi(scheduler, { trashRetention: 1000 });
+            await settle(scheduler, api.createListWithId('Chores'));
+            listId = responseOf(await settle(scheduler, api.createListWithId('Groceries')));
+        });
+
+        it('restores a deleted list at the index it had', async () => {
+            await settle(scheduler, api.deleteListById(listId));
+            expect(responseOf(await settle(scheduler, api.getTrash())).lists).toMatchObject([
+                { list: { id: listId }, index: 1 },
+            ]);
+            responseOf(await settle(scheduler, api.restoreList(listId)));
+            const lists = responseOf(await settle(scheduler, api.getTodoLists()));
+            expect(lists.map((todoList) => todoList.name)).toEqual(['Chores', 'Groceries']);
+        });
+
+        it('forgets what was deleted before the retention', async () => {
+            await settle(scheduler, api.deleteListById(listId));
+            scheduler.advanceBy(1001);
+            expect(responseOf(await settle(scheduler, api.getTrash())).lists).toEqual([]);
+            expect(errorCode(await settle(scheduler, api.restoreList(listId)))).toBe(404);
+        });
+    });
+
+    describe('import and export', () => {
+        let api: TodoApi;
+
+        async function listContents(target: TodoApi): Promise<{ name: string; items: string[] }[]> {
+            return responseOf(await settle(scheduler, target.getTodoLists())).map((todoList) => {
+                return { name: todoList.name, items: todoList.items.map((todo) => todo.description) };
+            });
+        }
+
+        beforeEach(() => {
+            api = createTestApi(scheduler, {
+                initialData: [
+                    { name: 'Groceries', items: [{ description: 'Milk', done: true, tags: ['dairy'] }] },
+                    { name: 'Chores', items: [] },
+                ],
+            });
+        });
+
+        it('imports an export into another api, with new ids', async () => {
+            const payload = responseOf(await settle(scheduler, api.exportData('json')));
+            const other = createTestApi(scheduler);
+            expect(responseOf(await settle(scheduler, other.importData('json', payload)))).toEqual({
+                listCount: 2,
+                todoCount: 1,
+            });
+            expect(await listContents(other)).toEqual(await listContents(api));
+            const [imported] = responseOf(await settle(scheduler, other.getTodoLists()));
+            const [exported] = responseOf(await settle(scheduler, api.getTodoLists()));
+            expect(imported?.items[0]).toMatchObject({ done: true, tags: ['dairy'] });
+            expect(imported?.items[0]?.id).not.toBe(exported?.items[0]?.id);
+        });
+
+        it('adds the todos to the list of the same name when merging, and trashes the lists when replacing', async () => {
+            const payload = 'list,description,done\nGroceries,Bread,false\nErrands,Post office,false\n';
+            await settle(scheduler, api.importData('csv', payload));
+            expect(await listContents(api)).toEqual([
+                { name: 'Groceries', items: ['Milk', 'Bread'] },
+                { name: 'Chores', items: [] },
+                { name: 'Errands', items: ['Post office'] },
+            ]);
+            await settle(scheduler, api.importData('markdown', '# Garden\n- [ ] Mow\n', { mode: 'replace' }));
+            expect(await listContents(api)).toEqual([{ name: 'Garden', items: ['Mow'] }]);
+            expect(responseOf(await settle(scheduler, api.getTrash())).lists).toHaveLength(3);
+        });
+
+        it('applies nothing of an invalid payload', async () => {
+            const payload = 'list,description,done\nGroceries,Bread,false\nErrands,Post office,maybe\n';
+            const result = await settle(scheduler, api.importData('csv', payload));
+            expect(result).toMatchObject({ error: { code: 422, fields: [{ field: 'done', line: 3 }] } });
+            expect(await listContents(api)).toEqual([
+                { name: 'Groceries', items: ['Milk'] },
+                { name: 'Chores', items: [] },
+            ]);
+        });
+
+        it('rejects an unknown format with a 400', async () => {
+            expect(errorCode(await settle(scheduler, api.exportData('toString' as DataFormat)))).toBe(400);
+            expect(errorCode(await settle(scheduler, api.importData('toString' as DataFormat, '')))).toBe(400);
+        });
+
+        it('undoes an import as a single change', async () => {
+            const session = api.session('tab');
+            await settle(scheduler, session.importData('markdown', '# Garden\n- [ ] Mow\n- [ ] Weed\n'));
+            responseOf(await settle(scheduler, session.undo()));
+            expect(await listContents(api)).toEqual([
+                { name: 'Groceries', items: ['Milk'] },
+                { name: 'Chores', items: [] },
+            ]);
+        });
+    });
+
+    describe('users', () => {
+        let api: TodoApi;
+        let ann: TodoApi;
+        let bob: TodoApi;
+        let privateListId: string;
+        let sharedListId: string;
+        let bobMessages: jest.Mock<void, [SocketMessage]>;
+
+        function listNames(lists: TodoList[]): string[] {
+            return lists.map((todoList) => todoList.name);
+        }
+
+        beforeEach(async () => {
+            api = createTestApi(scheduler, {
+                users: [
+                    { id: 'ann', name: 'Ann' },
+                    { id: 'bob', name: 'Bob' },
+                ],
+            });
+            ann = api.asUser('ann');
+            bob = api.asUser('bob');
+            privateListId = responseOf(await settle(scheduler, ann.createListWithId('Diary')));
+            sharedListId = responseOf(await settle(scheduler, ann.createListWithId('Groceries')));
+            await settle(scheduler, ann.setListMembers(sharedListId, [{ userId: 'bob', role: 'write' }]));
+            bobMessages = jest.fn();
+            api.socket.addListener(bobMessages, { userId: 'bob' });
+        });
+
+        it('only shows a user the lists they own or are a member of', async () => {
+            expect(listNames(responseOf(await settle(scheduler, ann.getTodoLists())))).toEqual(['Diary', 'Groceries']);
+            expect(listNames(responseOf(await settle(scheduler, bob.getTodoLists())))).toEqual(['Groceries']);
+            expect(errorCode(await settle(scheduler, bob.getTodoList(privateListId)))).toBe(403);
+        });
+
+        it('does not deliver the messages of a hidden list to a non-member', async () => {
+            await settle(scheduler, ann.addTodoById(privateListId, { description: 'Secret', done: false }));
+            await settle(scheduler, ann.renameListById(privateListId, 'Journal'));
+            expect(bobMessages).not.toHaveBeenCalled();
+        });
+
+        it('sends each user the indexes of the lists they see', async () => {
+            const annMessages = jest.fn();
+            api.socket.addListener(annMessages, { userId: 'ann' });
+            await settle(scheduler, ann.addTodoById(sharedListId, { description: 'Milk', done: false }));
+            expect(annMessages.mock.calls[0]?.[0]).toMatchObject({ type: 'addToDo', message: { listIndex: 1 } });
+            expect(bobMessages.mock.calls[0]?.[0]).toMatchObject({ type: 'addToDo', message: { listIndex: 0 } });
+        });
+
+        it('only delivers the changes of a batch the user may see', async () => {
+            await settle(
+                scheduler,
+                ann.batch([
+                    { type: 'addTodo', listId: privateListId, item: { description: 'Secret', done: false } },
+                    { type: 'addTodo', listId: sharedListId, item: { description: 'Milk', done: false } },
+                ]),
+            );
+            expect(bobMessages).toHaveBeenCalledTimes(1);
+            expect(bobMessages.mock.calls[0]?.[0]).toMatchObject({
+                type: 'batch',
+                message: { changes: [{ type: 'addToDo', message: { listId: sharedListId, listIndex: 0 } }] },
+            });
+        });
+
+        it('tells the members who lose access, and stops sending them the messages of the list', async () => {
+            await settle(scheduler, ann.setListMembers(sharedListId, []));
+            expect(bobMessages).toHaveBeenCalledTimes(1);
+            expect(bobMessages.mock.calls[0]?.[0]).toMatchObject({ type: 'listMembers' });
+            await settle(scheduler, ann.addTodoById(sharedListId, { description: 'Milk', done: false }));
+            expect(bobMessages).toHaveBeenCalledTimes(1);
+        });
+
+        it('rejects the changes a user is not allowed to make', async () => {
+            await settle(scheduler, ann.setListMembers(sharedListId, [{ userId: 'bob', role: 'read' }]));
+            expect(
+                errorCode(await settle(scheduler, bob.addTodoById(sharedListId, { description: 'Milk', done: false }))),
+            ).toBe(403);
+            expect(errorCode(await settle(scheduler, bob.deleteListById(sharedListId)))).toBe(403);
+            expect(errorCode(await settle(scheduler, bob.setListMembers(sharedListId, [])))).toBe(403);
+        });
+
+        it('only accepts an assignee allowed to see the list', async () => {
+            const result = await settle(
+                scheduler,
+                ann.addTodoById(privateListId, { description: 'Secret', done: false, assigneeId: 'bob' }),
+            );
+            expect(result).toMatchObject({ error: { code: 422, fields: [{ field: 'assigneeId' }] } });
+        });
+    });
+
+    describe('recurring todos and reminders', () => {
+        const HOUR = 60 * 60 * 1000;
+        let api: TodoApi;
+        let listId: string;
+
+        async function todos(): Promise<Todo[]> {
+            return responseOf(await settle(scheduler, api.getTodoList(listId))).items;
+        }
+
+        async function complete(todoId: string, done = true) {
+            responseOf(await settle(scheduler, api.editTodoById(listId, todoId, { done })));
+        }
+
+        beforeEach(async () => {
+            scheduler = createVirtualScheduler(Date.parse('2024-05-01T08:00:00.000Z'));
+            ({ api, listId } = await createTestApiWithList(scheduler, {}, 'Chores'));
+        });
+
+        afterEach(() => {
+            api.stopReminders();
+        });
+
+        it('adds the next occurrence of a completed recurring todo, with its reminder moved by as much', async () => {
+            const todoId = responseOf(
+                await settle(
+                    scheduler,
+                    api.addTodoById(listId, {
+                        description: 'Water the plants',
+                        done: false,
+                        dueDate: '2024-05-01',
+                        remindAt: '2024-05-01T09:00:00.000Z',
+                        priority: 'high',
+                        recurrence: { frequency: 'weekly' },
+                    }),
+                ),
+            );
+            await complete(todoId);
+            const [completed, next] = await todos();
+            expect(completed).toMatchObject({ id: todoId, done: true });
+            expect(completed?.recurrence).toBeUndefined();
+            expect(next).toMatchObject({
+                description: 'Water the plants',
+                done: false,
+                dueDate: '2024-05-08',
+                remindAt: '2024-05-08T09:00:00.000Z',
+                priority: 'high',
+                recurrence: { frequency: 'weekly' },
+            });
+            await complete(todoId, false);
+            await complete(todoId);
+            expect(await todos()).toHaveLength(2);
+        });
+
+        it('skips the occurrences that would already be overdue', async () => {
+            const recurrence = { frequency: 'daily', interval: 2 } as const;
+            const todoId = responseOf(
+                await settle(
+                    scheduler,
+                    api.addTodoById(listId, { description: 'Run', done: false, dueDate: '2024-04-20', recurrence }),
+                ),
+            );
+            await complete(todoId);
+            expect((await todos())[1]?.dueDate).toBe('2024-05-02');
+        });
+
+        it('keeps the day of a monthly todo, or the last day of a shorter month', async () => {
+            const recurrence = { frequency: 'monthly' } as const;
+            const todoId = responseOf(
+                await settle(
+                    scheduler,
+                    api.addTodoById(listId, {
+                        description: 'Pay rent',
+                        done: false,
+                        dueDate: '2024-05-31',
+                        recurrence,
+                    }),
+                ),
+            );
+            await complete(todoId);
+            expect((await todos())[1]?.dueDate).toBe('2024-06-30');
+        });
+
+        it('publishes the reminder and overdue messages of the todos that are not done', async () => {
+            await settle(
+                scheduler,
+                api.addTodoById(listId, {
+                    description: 'Call the plumber',
+                    done: false,
+                    dueDate: '2024-05-01T12:00:00.000Z',
+                    remindAt: '2024-05-01T10:00:00.000Z',
+                }),
+            );
+            const doneTodoId = responseOf(
+                await settle(
+                    scheduler,
+                    api.addTodoById(listId, {
+                        description: 'Buy a plant',
+                        done: false,
+                        remindAt: '2024-05-01T11:00:00.000Z',
+                    }),
+                ),
+            );
+            await complete(doneTodoId);
+            const messages = jest.fn();
+            api.socket.addListener(messages);
+            api.startReminders();
+            scheduler.advanceBy(HOUR);
+            expect(messages).not.toHaveBeenCalled();
+            scheduler.advanceBy(HOUR);
+            expect(messages).toHaveBeenCalledTimes(1);
+            expect(messages.mock.calls[0]?.[0]).toMatchObject({
+                type: 'reminder',
+                message: { listId, item: { description: 'Call the plumber' } },
+            });
+            scheduler.advanceBy(2 * HOUR);
+            expect(messages).toHaveBeenCalledTimes(2);
+            expect(messages.mock.calls[1]?.[0]).toMatchObject({
+                type: 'overdue',
+                message: { item: { description: 'Call the plumber' } },
+            });
+            api.stopReminders();
+            scheduler.advanceBy(24 * HOUR);
+            expect(messages).toHaveBeenCalledTimes(2);
+        });
+    });
+});
@@ -1,12 +1,132 @@
-import {socket} from './fake-socket';
+import { FakeSocket, socket as defaultSocket } from './fake-socket';
+import { FaultRule } from './fault-injection';
+import { RandomSource } from './random';
+import { Scheduler } from './scheduler';
+import { createDefaultStorage, StorageAdapter } from './storage';
+import { FieldError, RECURRENCE_FREQUENCIES, TODO_PRIORITIES } from './validation';
+import { buildErrorResponse } from './errors';
+import { RequestContext, TodoBackend } from './todo-backend';
+import { TodoPage, TodoQuery } from './todo-query';
+import { DataFormat, parseImport } from './import-export';
+import { ApiCall, ApiMiddleware } from './middleware';
 
 export type TodoList = {
+    id: string;
     items: Todo[];
     name: string;
+    /** Incremented each time the list or the order of its items changes */
+    version: number;
+    /** The user who created the list. A list without owner can be read and changed by everyone */
+    ownerId?: string;
+    /** The users the owner shared the list with */
+    members?: ListMember[];
 };
-export type Todo = {
+/**
+ * A simulated user, see TodoApi.asUser
+ */
+export type User = {
+    id: string;
+    name: string;
+};
+/**
+ * read: the member sees the list and its todos. write: the member can also rename and move the list, and change its
+ * todos. Only the owner can delete the list and change its members
+ */
+export type ListRole = 'read' | 'write';
+export type ListMember = {
+    userId: string;
+    role: ListRole;
+};
+export type Todo = TodoInput & {
+    id: string;
+    /** Incremented each time the todo is edited */
+    version: number;
+    /** ISO 8601 timestamps, maintained by the server */
+    createdAt: string;
+    updatedAt: string;
+    /** Set while the todo is done */
+    completedAt?: string;
+};
+export type TodoPriority = typeof TODO_PRIORITIES[number];
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+/**
+ * How a todo repeats: completing it adds its next occurrence to the list, due one interval after it
+ */
+export type TodoRecurrence = {
+    frequency: RecurrenceFrequency;
+    /** Number of days, weeks or months between two occurrences. Defaults to 1 */
+    interval?: number;
+};
+/**
+ * A todo as sent by a client: the id, version and timestamps are generated by the server
+ */
+export type TodoInput = {
     description: string;
     done: boolean;
+    /** ISO 8601 date or date-time, e.g. '2024-05-01' */
+    dueDate?: string;
+    priority?: TodoPriority;
+    tags?: string[];
+    notes?: string;
+    /** The id of the user the todo is assigned to */
+    assigneeId?: string;
+    /** ISO 8601 date-time at which a reminder message is published, see TodoApi.startReminders */
+    remindAt?: string;
+    /** Moved to the next occurrence when the todo is completed */
+    recurrence?: TodoRecurrence;
+};
+/**
+ * A partial update of a todo: absent fields are kept, null removes an optional field
+ */
+export type TodoPatch = {
+    description?: string;
+    done?: boolean;
+    dueDate?: string | null;
+    priority?: TodoPriority | null;
+    tags?: string[] | null;
+    notes?: string | null;
+    assigneeId?: string | null;
+    remindAt?: string | null;
+    recurrence?: TodoRecurrence | null;
+};
+/**
+ * The fields of a todo an edit can change
+ */
+export type TodoField = keyof TodoInput | 'completedAt';
+/**
+ * A list used to seed an api. Missing ids are generated, missing versions start at 1, missing timestamps are now
+ */
+export type TodoListSeed = {
+    id?: string;
+    name: string;
+    version?: number;
+    ownerId?: string;
+    members?: ListMember[];
+    items: (TodoInput & Partial<Pick<Todo, 'id' | 'version' | 'createdAt' | 'updatedAt' | 'completedAt'>>)[];
+};
+
+/**
+ * A deleted list, restorable until the trash retention expires
+ */
+export type TrashedList = {
+    list: TodoList;
+    /** The index the list had when it was deleted */
+    index: number;
+    deletedAt: string;
+};
+/**
+ * A removed todo, restorable until the trash retention expires
+ */
+export type TrashedTodo = {
+    todo: Todo;
+    listId: string;
+    /** The index the todo had in its list when it was removed */
+    index: number;
+    deletedAt: string;
+};
+export type Trash = {
+    lists: TrashedList[];
+    todos: TrashedTodo[];
 };
 
 export type ApiResponseWrapper<T> =
@@ -19,51 +139,305 @@ export type ApiResponseError = {
     error: {
         code: number;
         description: string;
+        /** With a 409 conflict, the current server value of the list or todo */
+        current?: TodoList | Todo;
+        /** With a 422 validation error, or a corrupt persisted payload, the fields that failed validation */
+        fields?: FieldError[];
+        /** With a batch, the index of the operation that failed */
+        operationIndex?: number;
     };
 };
 
-const initTodos: TodoList[] = [{ name: 'my first list', items: [] }];
+/**
+ * The api methods, as named in fault rules and middlewares
+ */
+export const API_OPERATIONS = [
+    'getTodoLists',
+    'getTodoList',
+    'queryTodos',
+    'createList',
+    'createListWithId',
+    'deleteList',
+    'deleteListById',
+    'renameList',
+    'renameListById',
+    'moveList',
+    'moveListById',
+    'setListMembers',
+    'addTodo',
+    'addTodoById',
+    'removeTodo',
+    'removeTodoById',
+    'moveTodo',
+    'moveTodoById',
+    'moveTodoToList',
+    'moveTodoToListById',
+    'editTodo',
+    'editTodoById',
+    'batch',
+    'undo',
+    'redo',
+    'getTrash',
+    'restoreList',
+    'restoreTodo',
+    'exportData',
+    'importData',
+    'getUsers',
+] as const;
+export type ApiOperation = typeof API_OPERATIONS[number];
+
+/**
+ * A change applied by batch. expectedVersion has the same meaning as in RequestOptions
+ */
+export type BatchOperation = (
+    | { type: 'createList'; name: string }
+    | { type: 'deleteList'; listId: string }
+    | { type: 'renameList'; listId: string; name: string }
+    | { type: 'moveList'; listId: string; destIndex: number }
+    | { type: 'setListMembers'; listId: string; members: ListMember[] }
+    | { type: 'addTodo'; listId: string; item: TodoInput }
+    | { type: 'removeTodo'; listId: string; todoId: string }
+    | { type: 'moveTodo'; listId: string; todoId: string; destIndex: number }
+    | { type: 'moveTodoToList'; sourceListId: string; todoId: string; destListId: string; destIndex: number }
+    | { type: 'editTodo'; listId: string; todoId: string; newValue: TodoPatch }
+    | { type: 'restoreList'; listId: string }
+    | { type: 'restoreTodo'; todoId: string }
+) & { expectedVersion?: number };
+
+/**
+ * The response of each operation of a batch: the new list for createList, the id of the new todo for addTodo,
+ * true otherwise
+ */
+export type BatchResult = TodoList | string | boolean;
+
+/**
+ * Delay in milliseconds before the api answers: a fixed value, a uniform range or a function called for each request
+ */
+export type Latency = number | { min: number; max: number } | (() => number);
+
+export type TodoApiOptions = {
+    /** Probability between 0 and 1 that a request succeeds. Defaults to 1 */
+    successRate?: number;
+    /** Defaults to a random multiple of 100ms between 0 and 900ms */
+    latency?: Latency;
+    /** Where the lists are persisted. Defaults to memory, or to storageKey when it is given */
+    storage?: StorageAdapter;
+    /** Persists the lists under this localStorage key when there is no storage, in a browser */
+    storageKey?: string;
+    /** Called when the storage fails, or when the persisted payload is corrupt */
+    onStorageError?: (error: ApiResponseError) => void;
+    /** Lists used when nothing is persisted yet. Defaults to a single empty list */
+    initialData?: TodoListSeed[];
+    /** Socket the changes are published on. Defaults to a new socket, on the scheduler of the api */
+    socket?: FakeSocket;
+    /** Source of every random choice (errors, latencies, ids). Use createSeededRandom for reproducible runs */
+    random?: RandomSource;
+    /** Clock and timers used to delay the responses. Use createVirtualScheduler to control time */
+    scheduler?: Scheduler;
+    /** Fault rules active from the start. More can be added with addFaultRule */
+    faultRules?: FaultRule[];
+    /** Middlewares active from the start. More can be added with addMiddleware */
+    middlewares?: ApiMiddleware[];
+    /** How long deleted lists and todos stay in the trash, in milliseconds. Defaults to 7 days */
+    trashRetention?: number;
+    /** The simulated users an api can act for, see asUser. Defaults to none */
+    users?: User[];
+    /** Publish the reminder and overdue messages from the start, see startReminders */
+    reminders?: boolean;
+};
+
+export type RequestOptions = {
+    /** Echoed in the socket messages caused by the request. Generated when not given */
+    correlationId?: string;
+    /**
+     * Rejects the request with a 409 conflict unless the server value still has this version.
+     * Checked against the todo for editTodo and removeTodo, against the source list for moveTodoToList,
+     * against the list otherwise
+     */
+    expectedVersion?: number;
+    /**
+     * Identifies the request across retries: a request carrying a key the server already applied for this session is
+     * answered with the previous response, without being applied again
+     */
+    idempotencyKey?: string;
+};
+
+/**
+ * merge: the imported lists are added, and the todos of a list named like an existing one are added to it.
+ * replace: the existing lists are deleted first
+ */
+export type ImportMode = 'merge' | 'replace';
+
+export type ImportOptions = Pick<RequestOptions, 'correlationId' | 'idempotencyKey'> & {
+    /** Defaults to merge */
+    mode?: ImportMode;
+};
+
+export type ImportSummary = {
+    listCount: number;
+    todoCount: number;
+};
+
 class TodoApi {
-    // You can change the success rate in the constructor to get random error responses from the api
-    private successRate: number;
-
-    private todos: TodoList[];
-
-    constructor() {
-        this.successRate = 1;
-        try {
-            const todosFromStorage = window.localStorage.getItem('jamespot-todo-tech');
-            if (todosFromStorage) {
-                const todosJsonFromStorage = JSON.parse(todosFromStorage);
-                if (Array.isArray(todosJsonFromStorage)) {
-                    this.todos = todosJsonFromStorage;
-                } else {
-                    this.todos = initTodos;
-                }
-            } else {
-                this.todos = initTodos;
+    /** The simulated client the calls are made for, undefined for the anonymous api returned by createTodoApi */
+    readonly clientId: string | undefined;
+    /** The user the calls are made for, undefined to bypass the permissions */
+    readonly userId: string | undefined;
+    readonly random: RandomSource;
+    readonly scheduler: Scheduler;
+    /** The socket the changes are published on, shared by the sessions */
+    readonly socket: FakeSocket;
+    private readonly backend: TodoBackend;
+    private nextRequestId: number;
+    // The call being passed to its method, whose context collects the sequenceIds of the published messages
+    private currentCall: ApiCall | undefined;
+
+    constructor(backend: TodoBackend, clientId: string | undefined, userId: string | undefined) {
+        this.backend = backend;
+        this.clientId = clientId;
+        this.userId = userId;
+        this.random = backend.random;
+        this.scheduler = backend.scheduler;
+        this.socket = backend.socket;
+        this.nextRequestId = 0;
+        this.currentCall = undefined;
+        // Every api method goes through the middlewares. The wrappers stay writable, e.g. for jest.spyOn
+        API_OPERATIONS.forEach((operation) => {
+            const method = TodoApi.prototype[operation];
+            Object.defineProperty(this, operation, {
+                value: (...args: unknown[]) => this.intercept(operation, args, method),
+                writable: true,
+                configurable: true,
+            });
+        });
+    }
+
+    private async intercept(
+        operation: ApiOperation,
+        args: unknown[],
+        method: TodoApi[ApiOperation],
+    ): Promise<ApiResponseWrapper<unknown>> {
+        const { middlewares } = this.backend;
+        if (middlewares.isEmpty) {
+            return Reflect.apply(method, this, args);
+        }
+        const call: ApiCall = { operation, args, clientId: this.clientId, userId: this.userId, sequenceIds: [] };
+        const result = await middlewares.run(call, () => {
+            this.currentCall = call;
+            try {
+                return Reflect.apply(method, this, call.args);
+            } finally {
+                this.currentCall = undefined;
             }
-        } catch (e) {
-            this.todos = initTodos;
+        });
+        if ('error' in result) {
+            throw result;
         }
+        return result;
     }
 
-    private saveTodoToStorage() {
-        window.localStorage.setItem('jamespot-todo-tech', JSON.stringify(this.todos));
+    /**
+     * Returns an api acting for a simulated client (a browser tab, another user...) on the same data.
+     * The socket messages caused by its calls carry its id as originClientId
+     *
+     * @param clientId The id of the client. Generated when not given
+     */
+    session(clientId?: string): TodoApi {
+        return new TodoApi(this.backend, clientId ?? this.backend.createClientId(), this.userId);
     }
 
-    private isSuccess = function isSuccess(successRate: number): boolean {
-        return Math.random() < successRate;
-    };
+    /**
+     * Returns an api acting for a simulated user, in a new session. The user only sees the lists they own or are a
+     * member of, and the calls they are not allowed to make are rejected with a 403 error
+     *
+     * @param userId The id of one of the users given in the options
+     * @param clientId The id of the session. Generated when not given
+     */
+    asUser(userId: string, clientId?: string): TodoApi {
+        if (!this.backend.findUser(userId)) {
+            throw new Error(`unknown user ${userId}`);
+        }
+        return new TodoApi(this.backend, clientId ?? this.backend.createClientId(), userId);
+    }
 
-    private buildErrorResponse = function buildErrorResponse(code: number, description: string): ApiResponseError {
+    private buildContext(options: RequestOptions): RequestContext {
         return {
-            error: {
-                code,
-                description,
-            },
+            clientId: this.clientId,
+            userId: this.userId,
+            correlationId: options.correlationId ?? `${this.clientId ?? 'anonymous'}-${this.nextRequestId++}`,
+            expectedVersion: options.expectedVersion,
+            idempotencyKey: options.idempotencyKey,
+            sequenceIds: this.currentCall?.sequenceIds ?? [],
         };
-    };
+    }
+
+    /**
+     * Adds a fault rule, e.g. { operation: 'addTodo', calls: [3], effect: { type: 'error', code: 409 } }
+     * Fault rules are shared by all the sessions
+     *
+     * @param rule The rule to apply to the next calls
+     * @returns The id of the rule, to remove it with removeFaultRule
+     */
+    addFaultRule(rule: FaultRule): string {
+        return this.backend.faultInjector.addRule(rule);
+    }
+
+    /**
+     * @param ruleId The id returned by addFaultRule
+     * @returns true if the rule was still active
+     */
+    removeFaultRule(ruleId: string): boolean {
+        return this.backend.faultInjector.removeRule(ruleId);
+    }
+
+    clearFaultRules() {
+        this.backend.faultInjector.clear();
+    }
+
+    /**
+     * Adds a middleware around every api method, e.g. the one of createRequestRecorder.
+     * Middlewares are shared by all the sessions, the first added being the outermost
+     *
+     * @returns The id of the middleware, to remove it with removeMiddleware
+     */
+    addMiddleware(middleware: ApiMiddleware): string {
+        return this.backend.middlewares.add(middleware);
+    }
+
+    /**
+     * @param middlewareId The id returned by addMiddleware
+     * @returns true if the middleware was still active
+     */
+    removeMiddleware(middlewareId: string): boolean {
+        return this.backend.middlewares.remove(middlewareId);
+    }
+
+    clearMiddlewares() {
+        this.backend.middlewares.clear();
+    }
+
+    /**
+     * Publishes a reminder message when the remindAt time of a todo that is not done passes, and an overdue message
+     * when its due date does. The times are watched with the scheduler of the api: advance a virtual scheduler to
+     * trigger them. Only the times passing from now on are notified. Shared by all the sessions
+     */
+    startReminders() {
+        this.backend.startReminders();
+    }
+
+    /**
+     * Stops the timer of the reminders, which otherwise keeps a Node process running
+     */
+    stopReminders() {
+        this.backend.stopReminders();
+    }
+
+    /**
+     * @returns The last error reported by the storage, e.g. a corrupt payload found when the api was created
+     */
+    getStorageError(): ApiResponseError | undefined {
+        return this.backend.storageError;
+    }
 
     /**
      * Returns the list of available todoLists
@@ -71,60 +445,227 @@ class TodoApi {
      * @returns An ApiResponseWrapper containing the available todo lists. An ApiResponseError if something went wrong
      */
     async getTodoLists(): Promise<ApiResponseWrapper<TodoList[]>> {
-        return new Promise((resolve, reject) => {
-            setTimeout(() => {
-                if (this.isSuccess(this.successRate)) {
-                    // Avoid returning references to items in my local variable so that it is not modified accidentally by caller
-                    resolve({
-                        response: this.todos.map((todolist) => {
-                            return {
-                                name: todolist.name,
-                                items: todolist.items.map((todo) => {
-                                    return { ...todo };
-                                }),
-                            };
-                        }),
-                    });
-                } else {
-                    reject(this.buildErrorResponse(500, 'internal error'));
+        return this.backend.delayedResponse('getTodoLists', () => {
+            return {
+                response: this.backend.getTodoLists(this.userId),
+            };
+        });
+    }
+
+    /**
+     * Applies several changes at once, all or nothing: if one of them fails, the lists and the storage are left
+     * untouched. The changes are published in a single batch message
+     *
+     * @param operations The changes to apply, in order
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the result of each operation. An ApiResponseError carrying the operationIndex of the failing operation if something went wrong
+     */
+    async batch(
+        operations: BatchOperation[],
+        options: Pick<RequestOptions, 'correlationId' | 'idempotencyKey'> = {},
+    ): Promise<ApiResponseWrapper<BatchResult[]>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse('batch', () => this.backend.batch(context, operations), context);
+    }
+
+    /**
+     * Reverts the last change made by this session that was not undone yet, by applying its inverse.
+     * Other clients receive the usual socket messages for it. A change that can no longer be reverted, e.g. because
+     * another client deleted its todo meanwhile, is dropped from the history
+     *
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async undo(
+        options: Pick<RequestOptions, 'correlationId' | 'idempotencyKey'> = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse('undo', () => this.backend.undo(context), context);
+    }
+
+    /**
+     * Applies again the last change reverted by undo. The redo history is cleared by any new change of this session
+     *
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async redo(
+        options: Pick<RequestOptions, 'correlationId' | 'idempotencyKey'> = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse('redo', () => this.backend.redo(context), context);
+    }
+
+    canUndo(): boolean {
+        return this.backend.historyOf(this.clientId).undo.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.backend.historyOf(this.clientId).redo.length > 0;
+    }
+
+    /**
+     * Returns the deleted lists and todos that can still be restored
+     *
+     * @returns An ApiResponseWrapper containing the trash. An ApiResponseError if something went wrong
+     */
+    async getTrash(): Promise<ApiResponseWrapper<Trash>> {
+        return this.backend.delayedResponse('getTrash', () => this.backend.getTrash(this.userId));
+    }
+
+    /**
+     * Puts a deleted list back at the index it had
+     *
+     * @param listId The id of the deleted list
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async restoreList(listId: string, options: RequestOptions = {}): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse('restoreList', () => this.backend.restoreList(context, listId), context);
+    }
+
+    /**
+     * Puts a removed todo back in its list, at the index it had. Its list must not be deleted
+     *
+     * @param todoId The id of the removed todo
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async restoreTodo(todoId: string, options: RequestOptions = {}): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse('restoreTodo', () => this.backend.restoreTodo(context, todoId), context);
+    }
+
+    /**
+     * Writes the lists the user can see in a portable format, e.g. to share fixtures. Ids, versions, timestamps, owners
+     * and assignees are not exported
+     *
+     * @param format json keeps every field a client can send, with a format version. csv has one row per todo, with the
+     * name of its list. markdown is a checklist per list, keeping only the descriptions and the done flags
+     * @returns An ApiResponseWrapper containing the payload. A 400 ApiResponseError if the format is unknown, an
+     * ApiResponseError if something else went wrong
+     */
+    async exportData(format: DataFormat): Promise<ApiResponseWrapper<string>> {
+        return this.backend.delayedResponse('exportData', () => this.backend.exportData(format, this.userId));
+    }
+
+    /**
+     * Imports lists written by exportData, or by hand. The import is applied as a single change, all or nothing
+     *
+     * @param format The format of the payload, see exportData
+     * @param payload The content to import
+     * @param options The import mode, and the options of the request
+     * @returns An ApiResponseWrapper containing the number of lists and todos imported. An ApiResponseError if something went wrong, a 422 listing the invalid rows if the payload is invalid
+     */
+    async importData(
+        format: DataFormat,
+        payload: string,
+        options: ImportOptions = {},
+    ): Promise<ApiResponseWrapper<ImportSummary>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'importData',
+            () => {
+                const parsed = parseImport(format, payload);
+                if ('error' in parsed) {
+                    return parsed;
                 }
-            }, Math.floor(Math.random() * 10) * 100);
+                return this.backend.importData(context, parsed.response, options.mode ?? 'merge');
+            },
+            context,
+        );
+    }
+
+    /**
+     * Returns the simulated users, e.g. to pick the assignee of a todo
+     *
+     * @returns An ApiResponseWrapper containing the users. An ApiResponseError if something went wrong
+     */
+    async getUsers(): Promise<ApiResponseWrapper<User[]>> {
+        return this.backend.delayedResponse('getUsers', () => {
+            return {
+                response: this.backend.getUsers(),
+            };
         });
     }
 
+    /**
+     * Replaces the members of a list. Only its owner can change them. The members that lose access receive the
+     * message, so that they can drop the list
+     *
+     * @param listId The id of the list
+     * @param members The users the list is shared with, and their role
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async setListMembers(
+        listId: string,
+        members: ListMember[],
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'setListMembers',
+            () => this.backend.setListMembers(context, listId, members),
+            context,
+        );
+    }
+
+    /**
+     * Returns a single todoList
+     *
+     * @param listId The id of the list
+     * @returns An ApiResponseWrapper containing the todo list. An ApiResponseError if something went wrong
+     */
+    async getTodoList(listId: string): Promise<ApiResponseWrapper<TodoList>> {
+        return this.backend.delayedResponse('getTodoList', () => this.backend.getTodoList(listId, this.userId));
+    }
+
+    /**
+     * Searches the todos of all the lists, or of one list, one page at a time
+     *
+     * @param query The filters, sort and page to return. Pass the nextCursor of a page to get the next one
+     * @returns An ApiResponseWrapper containing the page and the total count of matching todos. An ApiResponseError if something went wrong
+     */
+    async queryTodos(query: TodoQuery = {}): Promise<ApiResponseWrapper<TodoPage>> {
+        return this.backend.delayedResponse('queryTodos', () => this.backend.queryTodos(query, this.userId));
+    }
+
     /**
      * Creates a new empty todo list
      * @param name The name of the new list
+     * @param options Options of the request, e.g. its correlationId
      * @returns An ApiResponseWrapper containing the index of the newly created empty list. An ApiResponseError if something went wrong
      */
-    async createList(name: string): Promise<ApiResponseWrapper<number>> {
-        return new Promise((resolve, reject) => {
-            setTimeout(() => {
-                if (this.isSuccess(this.successRate)) {
-                    const length = this.todos.push({
-                        name,
-                        items: [],
-                    });
-                    this.saveTodoToStorage();
-                    const currentTodo = this.todos[this.todos.length - 1];
-                    if (!currentTodo) {
-                        return;
-                    }
-                    socket.dispatchMessage({
-                        type: 'createList',
-                        message: {
-                            name: currentTodo.name,
-                            items: [...currentTodo.items],
-                        },
-                    });
-                    resolve({
-                        response: length - 1,
-                    });
-                } else {
-                    reject(this.buildErrorResponse(500, 'internal error'));
-                }
-            }, Math.floor(Math.random() * 10) * 100);
-        });
+    async createList(name: string, options: RequestOptions = {}): Promise<ApiResponseWrapper<number>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'createList',
+            () => {
+                const result = this.backend.createList(context, name);
+                return 'error' in result ? result : { response: this.backend.countLists(this.userId) - 1 };
+            },
+            context,
+        );
+    }
+
+    /**
+     * Creates a new empty todo list
+     * @param name The name of the new list
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the id of the newly created empty list. An ApiResponseError if something went wrong
+     */
+    async createListWithId(name: string, options: RequestOptions = {}): Promise<ApiResponseWrapper<string>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'createListWithId',
+            () => {
+                const result = this.backend.createList(context, name);
+                return 'error' in result ? result : { response: result.response.id };
+            },
+            context,
+        );
     }
 
     /**
@@ -132,35 +673,131 @@ class TodoApi {
      * Generates an error if the index does not exist
      *
      * @param listIndex The index of the list to be deleted
+     * @param options Options of the request, e.g. its correlationId
      * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
      */
-    async deleteList(listIndex: number): Promise<ApiResponseWrapper<boolean>> {
-        return new Promise((resolve, reject) => {
-            setTimeout(() => {
-                if (this.isSuccess(this.successRate)) {
-                    try {
-                        if (listIndex < 0 || listIndex >= this.todos.length) {
-                            reject(this.buildErrorResponse(400, 'index out of bound'));
-                        }
-                        this.todos.splice(listIndex, 1);
-                        this.saveTodoToStorage();
-                        socket.dispatchMessage({
-                            type: 'deleteList',
-                            message: {
-                                index: listIndex,
-                            },
-                        });
-                        resolve({
-                            response: true,
-                        });
-                    } catch (e) {
-                        reject(this.buildErrorResponse(500, 'internal error'));
-                    }
-                } else {
-                    reject(this.buildErrorResponse(500, 'internal error'));
+    async deleteList(listIndex: number, options: RequestOptions = {}): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'deleteList',
+            () => {
+                const listId = this.backend.listIdAt(listIndex, this.userId);
+                if (listId === undefined) {
+                    return buildErrorResponse(400, 'index out of bound');
                 }
-            }, Math.floor(Math.random() * 10) * 100);
-        });
+                return this.backend.deleteList(context, listId);
+            },
+            context,
+        );
+    }
+
+    /**
+     * Deletes the todolist with the given id
+     * Generates an error if the list does not exist
+     *
+     * @param listId The id of the list to be deleted
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async deleteListById(listId: string, options: RequestOptions = {}): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse('deleteListById', () => this.backend.deleteList(context, listId), context);
+    }
+
+    /**
+     * Renames the todolist at the given index
+     *
+     * @param listIndex The index of the list to be renamed
+     * @param name The new name of the list
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async renameList(
+        listIndex: number,
+        name: string,
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'renameList',
+            () => {
+                const listId = this.backend.listIdAt(listIndex, this.userId);
+                if (listId === undefined) {
+                    return buildErrorResponse(400, 'index out of bound');
+                }
+                return this.backend.renameList(context, listId, name);
+            },
+            context,
+        );
+    }
+
+    /**
+     * Renames the todolist with the given id
+     *
+     * @param listId The id of the list to be renamed
+     * @param name The new name of the list
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async renameListById(
+        listId: string,
+        name: string,
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'renameListById',
+            () => this.backend.renameList(context, listId, name),
+            context,
+        );
+    }
+
+    /**
+     * Moves a todolist to another position among the lists
+     *
+     * @param sourceIndex The index of the list to be moved
+     * @param destIndex The destination index of the list
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async moveList(
+        sourceIndex: number,
+        destIndex: number,
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'moveList',
+            () => {
+                const listId = this.backend.listIdAt(sourceIndex, this.userId);
+                if (listId === undefined) {
+                    return buildErrorResponse(400, 'index out of bound');
+                }
+                return this.backend.moveList(context, listId, destIndex);
+            },
+            context,
+        );
+    }
+
+    /**
+     * Moves a todolist to another position among the lists
+     *
+     * @param listId The id of the list to be moved
+     * @param destIndex The destination index of the list
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async moveListById(
+        listId: string,
+        destIndex: number,
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'moveListById',
+            () => this.backend.moveList(context, listId, destIndex),
+            context,
+        );
     }
 
     /**
@@ -168,41 +805,44 @@ class TodoApi {
      *
      * @param listIndex The index of the list to which the item must be added
      * @param item The item to add
+     * @param options Options of the request, e.g. its correlationId
      * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
      */
-    async addTodo(listIndex: number, item: Todo): Promise<ApiResponseWrapper<boolean>> {
-        return new Promise((resolve, reject) => {
-            setTimeout(() => {
-                if (this.isSuccess(this.successRate)) {
-                    try {
-                        if (listIndex < 0 || listIndex >= this.todos.length) {
-                            reject(this.buildErrorResponse(400, 'index out of bound'));
-                        }
-                        // A real backend should validate that the item has the right format
-                        const currentList = this.todos[listIndex];
-                        if (!currentList) {
-                            return;
-                        }
-                        currentList.items.push({ ...item });
-                        this.saveTodoToStorage();
-                        socket.dispatchMessage({
-                            type: 'addToDo',
-                            message: {
-                                listIndex: listIndex,
-                                item: { ...item },
-                            },
-                        });
-                        resolve({
-                            response: true,
-                        });
-                    } catch (e) {
-                        reject(this.buildErrorResponse(500, 'internal error'));
-                    }
-                } else {
-                    reject(this.buildErrorResponse(500, 'internal error'));
+    async addTodo(
+        listIndex: number,
+        item: TodoInput,
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'addTodo',
+            () => {
+                const listId = this.backend.listIdAt(listIndex, this.userId);
+                if (listId === undefined) {
+                    return buildErrorResponse(400, 'index out of bound');
                 }
-            }, Math.floor(Math.random() * 10) * 100);
-        });
+                const result = this.backend.addTodo(context, listId, item);
+                return 'error' in result ? result : { response: true };
+            },
+            context,
+        );
+    }
+
+    /**
+     * Adds a todo item to a list
+     *
+     * @param listId The id of the list to which the item must be added
+     * @param item The item to add
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the id of the new item. An ApiResponseError if something went wrong
+     */
+    async addTodoById(
+        listId: string,
+        item: TodoInput,
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<string>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse('addTodoById', () => this.backend.addTodo(context, listId, item), context);
     }
 
     /**
@@ -210,42 +850,48 @@ class TodoApi {
      *
      * @param listIndex The index of the list from which the item must be removed
      * @param todoIndex The index of the item to be removed
+     * @param options Options of the request, e.g. its correlationId
      * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
      */
-    async removeTodo(listIndex: number, todoIndex: number): Promise<ApiResponseWrapper<boolean>> {
-        return new Promise((resolve, reject) => {
-            setTimeout(() => {
-                if (this.isSuccess(this.successRate)) {
-                    try {
-                        if (listIndex < 0 || listIndex >= this.todos.length) {
-                            reject(this.buildErrorResponse(400, 'index out of bound'));
-                            return;
-                        }
-                        const currentList = this.todos[listIndex];
-                        if (!currentList || todoIndex < 0 || todoIndex >= currentList.items.length) {
-                            reject(this.buildErrorResponse(400, 'index out of bound'));
-                            return;
-                        }
-                        currentList.items.splice(todoIndex, 1);
-                        this.saveTodoToStorage();
-                        socket.dispatchMessage({
-                            type: 'removeTodo',
-                            message: {
-                                listIndex: listIndex,
-                                itemIndex: todoIndex,
-                            },
-                        });
-                        resolve({
-                            response: true,
-                        });
-                    } catch (e) {
-                        reject(this.buildErrorResponse(500, 'internal error'));
-                    }
-                } else {
-                    reject(this.buildErrorResponse(500, 'internal error'));
+    async removeTodo(
+        listIndex: number,
+        todoIndex: number,
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'removeTodo',
+            () => {
+                const listId = this.backend.listIdAt(listIndex, this.userId);
+                const todoId = this.backend.itemIdAt(listIndex, todoIndex, this.userId);
+                if (listId === undefined || todoId === undefined) {
+                    return buildErrorResponse(400, 'index out of bound');
                 }
-            }, Math.floor(Math.random() * 10) * 100);
-        });
+                return this.backend.removeTodo(context, listId, todoId);
+            },
+            context,
+        );
+    }
+
+    /**
+     * Remove an item from a list
+     *
+     * @param listId The id of the list from which the item must be removed
+     * @param todoId The id of the item to be removed
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async removeTodoById(
+        listId: string,
+        todoId: string,
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'removeTodoById',
+            () => this.backend.removeTodo(context, listId, todoId),
+            context,
+        );
     }
 
     /**
@@ -253,98 +899,181 @@ class TodoApi {
      * @param listIndex The index of the list from which the item must be removed
      * @param sourceIndex The source index of the item to be moved
      * @param destIndex The destination index of the item to be moved
+     * @param options Options of the request, e.g. its correlationId
      * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
      */
-    async moveTodo(listIndex: number, sourceIndex: number, destIndex: number): Promise<ApiResponseWrapper<boolean>> {
-        return new Promise((resolve, reject) => {
-            setTimeout(() => {
-                if (this.isSuccess(this.successRate)) {
-                    try {
-                        const todoList = this.todos[listIndex];
-                        if (!todoList) {
-                            reject(this.buildErrorResponse(400, 'Could not find todolist'));
-                            return;
-                        }
-                        if (
-                            listIndex < 0 ||
-                            listIndex >= this.todos.length ||
-                            sourceIndex < 0 ||
-                            sourceIndex >= todoList.items.length
-                        ) {
-                            reject(this.buildErrorResponse(400, 'index out of bound'));
-                            return;
-                        }
-                        const todo = todoList.items.splice(sourceIndex, 1);
-                        todoList.items.splice(destIndex, 0, ...todo);
-                        this.saveTodoToStorage();
-                        socket.dispatchMessage({
-                            type: 'moveTodo',
-                            message: {
-                                listIndex,
-                                sourceIndex,
-                                destIndex,
-                            },
-                        });
-                        resolve({
-                            response: true,
-                        });
-                    } catch (e) {
-                        reject(this.buildErrorResponse(500, 'internal error'));
-                    }
-                } else {
-                    reject(this.buildErrorResponse(500, 'internal error'));
+    async moveTodo(
+        listIndex: number,
+        sourceIndex: number,
+        destIndex: number,
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'moveTodo',
+            () => {
+                const listId = this.backend.listIdAt(listIndex, this.userId);
+                if (listId === undefined) {
+                    return buildErrorResponse(400, 'Could not find todolist');
                 }
-            }, Math.floor(Math.random() * 10) * 100);
-        });
+                const todoId = this.backend.itemIdAt(listIndex, sourceIndex, this.userId);
+                if (todoId === undefined) {
+                    return buildErrorResponse(400, 'index out of bound');
+                }
+                return this.backend.moveTodo(context, listId, todoId, destIndex);
+            },
+            context,
+        );
+    }
+
+    /**
+     *
+     * @param listId The id of the list in which the item must be moved
+     * @param todoId The id of the item to be moved
+     * @param destIndex The destination index of the item to be moved
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async moveTodoById(
+        listId: string,
+        todoId: string,
+        destIndex: number,
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'moveTodoById',
+            () => this.backend.moveTodo(context, listId, todoId, destIndex),
+            context,
+        );
+    }
+
+    /**
+     * Moves an item to another list
+     *
+     * @param sourceListIndex The index of the list containing the item
+     * @param sourceIndex The index of the item to be moved
+     * @param destListIndex The index of the list the item is moved to
+     * @param destIndex The index of the item in the destination list
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async moveTodoToList(
+        sourceListIndex: number,
+        sourceIndex: number,
+        destListIndex: number,
+        destIndex: number,
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'moveTodoToList',
+            () => {
+                const sourceListId = this.backend.listIdAt(sourceListIndex, this.userId);
+                const destListId = this.backend.listIdAt(destListIndex, this.userId);
+                const todoId = this.backend.itemIdAt(sourceListIndex, sourceIndex, this.userId);
+                if (sourceListId === undefined || destListId === undefined || todoId === undefined) {
+                    return buildErrorResponse(400, 'index out of bound');
+                }
+                return this.backend.moveTodoToList(context, sourceListId, todoId, destListId, destIndex);
+            },
+            context,
+        );
+    }
+
+    /**
+     * Moves an item to another list
+     *
+     * @param sourceListId The id of the list containing the item
+     * @param todoId The id of the item to be moved
+     * @param destListId The id of the list the item is moved to
+     * @param destIndex The index of the item in the destination list
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async moveTodoToListById(
+        sourceListId: string,
+        todoId: string,
+        destListId: string,
+        destIndex: number,
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'moveTodoToListById',
+            () => this.backend.moveTodoToList(context, sourceListId, todoId, destListId, destIndex),
+            context,
+        );
     }
 
     /**
      *
      * @param listIndex The index of the list from which the item must be removed
      * @param itemIndex The index of the item to be edited
-     * @param newValue The new value of the todo
+     * @param newValue The fields of the todo to change, the others are kept
+     * @param options Options of the request, e.g. its correlationId
      * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
      */
-    async editTodo(listIndex: number, itemIndex: number, newValue: Todo): Promise<ApiResponseWrapper<boolean>> {
-        return new Promise((resolve, reject) => {
-            setTimeout(() => {
-                if (this.isSuccess(this.successRate)) {
-                    try {
-                        const todoList = this.todos[listIndex];
-                        if (!todoList) {
-                            reject(this.buildErrorResponse(400, 'could not find todolist'));
-                            return;
-                        }
-                        if (
-                            listIndex < 0 ||
-                            listIndex >= this.todos.length ||
-                            itemIndex < 0 ||
-                            itemIndex >= todoList.items.length
-                        ) {
-                            reject(this.buildErrorResponse(400, 'index out of bound'));
-                        }
-                        todoList.items[itemIndex] = { ...newValue };
-                        this.saveTodoToStorage();
-                        socket.dispatchMessage({
-                            type: 'editTodo',
-                            message: {
-                                listIndex,
-                                itemIndex,
-                                newValue,
-                            },
-                        });
-                        resolve({
-                            response: true,
-                        });
-                    } catch (e) {
-                        reject(this.buildErrorResponse(500, 'internal error'));
-                    }
-                } else {
-                    reject(this.buildErrorResponse(500, 'internal error'));
+    async editTodo(
+        listIndex: number,
+        itemIndex: number,
+        newValue: TodoPatch,
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'editTodo',
+            () => {
+                const listId = this.backend.listIdAt(listIndex, this.userId);
+                if (listId === undefined) {
+                    return buildErrorResponse(400, 'could not find todolist');
                 }
-            }, Math.floor(Math.random() * 10) * 100);
-        });
+                const todoId = this.backend.itemIdAt(listIndex, itemIndex, this.userId);
+                if (todoId === undefined) {
+                    return buildErrorResponse(400, 'index out of bound');
+                }
+                return this.backend.editTodo(context, listId, todoId, newValue);
+            },
+            context,
+        );
+    }
+
+    /**
+     *
+     * @param listId The id of the list containing the item
+     * @param todoId The id of the item to be edited
+     * @param newValue The fields of the todo to change, the others are kept
+     * @param options Options of the request, e.g. its correlationId
+     * @returns An ApiResponseWrapper containing the true. An ApiResponseError if something went wrong
+     */
+    async editTodoById(
+        listId: string,
+        todoId: string,
+        newValue: TodoPatch,
+        options: RequestOptions = {},
+    ): Promise<ApiResponseWrapper<boolean>> {
+        const context = this.buildContext(options);
+        return this.backend.delayedResponse(
+            'editTodoById',
+            () => this.backend.editTodo(context, listId, todoId, newValue),
+            context,
+        );
     }
 }
 
-export const todoApi = new TodoApi();
+/**
+ * Creates an isolated api, with its own state, memory storage and socket unless they are given
+ *
+ * @param options The behaviour of the fake backend
+ * @returns A new api instance
+ */
+export function createTodoApi(options: TodoApiOptions = {}): TodoApi {
+    return new TodoApi(new TodoBackend(options), undefined, undefined);
+}
+
+export type { TodoApi };
+
+/**
+ * The shared api, persisted in localStorage in a browser and publishing on the shared socket
+ */
+export const todoApi = createTodoApi({ socket: defaultSocket, storage: createDefaultStorage('jamespot-todo-tech') });
@@ -0,0 +1,1566 @@
+import { buildErrorResponse, buildValidationErrorResponse } from './errors';
+import { createFakeSocket, FakeSocket, MessageAudience, MessageOrigin, RawMessage } from './fake-socket';
+import { FaultEffect, FaultInjector } from './fault-injection';
+import { DataFormat, exportLists, ImportedList } from './import-export';
+import { MiddlewareChain } from './middleware';
+import {
+    completeTodoLists,
+    CURRENT_SCHEMA_VERSION,
+    MigrationContext,
+    migratePersistedTodos,
+    PersistedTodos,
+    serializeTodos,
+} from './migrations';
+import { defaultRandom, RandomSource } from './random';
+import { realScheduler, Scheduler, TimerHandle } from './scheduler';
+import { createDefaultStorage, createMemoryStorage, StorageAdapter } from './storage';
+import {
+    ApiOperation,
+    ApiResponseError,
+    ApiResponseWrapper,
+    BatchOperation,
+    BatchResult,
+    ImportMode,
+    ImportSummary,
+    Latency,
+    ListMember,
+    Todo,
+    TodoApiOptions,
+    TodoInput,
+    TodoList,
+    TodoListSeed,
+    TodoPatch,
+    Trash,
+    User,
+} from './todo-api';
+import {
+    applyTodoPatch,
+    buildNextOccurrence,
+    buildRevertPatch,
+    buildTodo,
+    getDueTime,
+    toTimestamp,
+} from './todo-model';
+import { queryTodos, TodoPage, TodoQuery } from './todo-query';
+import {
+    validateBatchOperations,
+    validateListMembers,
+    validateListName,
+    validateTodoInput,
+    validateTodoPatch,
+} from './validation';
+
+/**
+ * Who is calling the api, attached to the socket messages caused by the call
+ */
+export type RequestContext = {
+    clientId: string | undefined;
+    /** The user the request acts for, undefined to bypass the permissions */
+    userId: string | undefined;
+    correlationId: string;
+    expectedVersion: number | undefined;
+    idempotencyKey: string | undefined;
+    /** Where the sequenceIds of the messages published for the request are added */
+    sequenceIds: number[];
+};
+
+type ErrorFault = Extract<FaultEffect, { type: 'error' }>;
+
+/**
+ * What a request does with a list: owner is needed to delete it or change its members
+ */
+type ListAccess = 'read' | 'write' | 'owner';
+
+type BatchChange = {
+    message: RawMessage;
+    audience: MessageAudience;
+};
+
+/**
+ * A change recorded in the history of a session, with the operations reverting and reapplying it
+ */
+type HistoryEntry = {
+    undo: BatchOperation[];
+    redo: BatchOperation[];
+};
+
+export type SessionHistory = {
+    undo: HistoryEntry[];
+    redo: HistoryEntry[];
+};
+
+type Snapshot = {
+    todos: TodoList[];
+    trash: Trash;
+};
+
+const MAX_HISTORY_SIZE = 100;
+const MAX_IDEMPOTENT_RESULTS = 1000;
+const DEFAULT_TRASH_RETENTION = 7 * 24 * 60 * 60 * 1000;
+// Longer delays overflow the timers of the browsers and Node
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Thrown when a change could not be persisted, so that the in-memory state is restored
+ */
+class StorageSaveError extends Error {
+    readonly response: ApiResponseError;
+
+    constructor(response: ApiResponseError) {
+        super(response.error.description);
+        this.response = response;
+    }
+}
+
+function errorMessage(e: unknown): string {
+    return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * @returns A 409 error carrying a copy of the current value if it does not have the version the client expects
+ */
+function checkVersion(context: RequestContext, current: TodoList | Todo): ApiResponseError | undefined {
+    if (context.expectedVersion === undefined || context.expectedVersion === current.version) {
+        return undefined;
+    }
+    const conflict = buildErrorResponse(409, `version conflict: expected ${context.expectedVersion}`);
+    conflict.error.current = 'items' in current ? copyTodoList(current) : { ...current };
+    return conflict;
+}
+
+function canAccess(userId: string | undefined, todoList: TodoList, access: ListAccess): boolean {
+    if (userId === undefined || todoList.ownerId === undefined || todoList.ownerId === userId) {
+        return true;
+    }
+    const member = todoList.members?.find((listMember) => listMember.userId === userId);
+    return access !== 'owner' && member !== undefined && (access === 'read' || member.role === 'write');
+}
+
+/**
+ * @returns The position of lists[index] in the lists the user may see: the number of those before it
+ */
+function visibleIndex(lists: TodoList[], index: number, userId: string | undefined): number {
+    return lists.slice(0, index).filter((todoList) => canAccess(userId, todoList, 'read')).length;
+}
+
+/**
+ * @returns A 403 error if the user of the request is not allowed the access to the list
+ */
+function checkAccess(context: RequestContext, todoList: TodoList, access: ListAccess): ApiResponseError | undefined {
+    return canAccess(context.userId, todoList, access) ? undefined : buildErrorResponse(403, 'forbidden');
+}
+
+/**
+ * The users allowed to see the messages about a list: everyone for a list without owner
+ */
+function readersOf(todoList: TodoList): MessageAudience {
+    if (todoList.ownerId === undefined) {
+        return {};
+    }
+    return { userIds: [todoList.ownerId, ...(todoList.members ?? []).map((member) => member.userId)] };
+}
+
+/**
+ * @returns An audience allowing the users of both audiences
+ */
+function mergeAudiences(a: MessageAudience, b: MessageAudience): MessageAudience {
+    if (!a.userIds || !b.userIds) {
+        return {};
+    }
+    return { userIds: [...new Set([...a.userIds, ...b.userIds])] };
+}
+
+function isIndexWithin(index: number, maxIndex: number): boolean {
+    return Number.isInteger(index) && index >= 0 && index <= maxIndex;
+}
+
+function copyTodoList(todoList: TodoList): TodoList {
+    const copy: TodoList = {
+        ...todoList,
+        items: todoList.items.map((todo) => {
+            return { ...todo };
+        }),
+    };
+    if (todoList.members) {
+        copy.members = todoList.members.map((member) => {
+            return { ...member };
+        });
+    }
+    return copy;
+}
+
+function copyTrash(trash: Trash): Trash {
+    return {
+        lists: trash.lists.map((entry) => {
+            return { ...entry, list: copyTodoList(entry.list) };
+        }),
+        todos: trash.todos.map((entry) => {
+            return { ...entry, todo: { ...entry.todo } };
+        }),
+    };
+}
+
+/**
+ * The state of the fake server, shared by all the sessions of an api
+ */
+export class TodoBackend {
+    private successRate: number;
+    private latency: Latency;
+    private storage: StorageAdapter;
+    private onStorageError: ((error: ApiResponseError) => void) | undefined;
+    // The last error reported by the storage
+    storageError: ApiResponseError | undefined;
+    readonly socket: FakeSocket;
+    readonly random: RandomSource;
+    readonly scheduler: Scheduler;
+    readonly faultInjector: FaultInjector;
+    readonly middlewares: MiddlewareChain;
+    // Set while a change whose socket event must be dropped is applied
+    private socketMuted: boolean;
+    // Set while a batch is applied: its changes are saved and published once, at the end
+    private batchChanges: BatchChange[] | undefined;
+    private clientCount: number;
+    private users: User[];
+
+    private todos: TodoList[];
+    private trash: Trash;
+    private trashRetention: number;
+    private histories: Map<string | undefined, SessionHistory>;
+    // The change applied by the current request, added to the history of its session if the request succeeds
+    private pendingChange: { clientId: string | undefined; entry: HistoryEntry } | undefined;
+    // Responses of the requests applied with an idempotency key, by client and key
+    private idempotentResults: Map<string, ApiResponseWrapper<unknown>>;
+    // Whether the reminder and overdue messages are published, see startReminders
+    private remindersStarted: boolean;
+    // Time up to which the reminder and overdue messages were published
+    private remindersCheckedAt: number;
+    private reminderTimer: TimerHandle | undefined;
+
+    constructor(options: TodoApiOptions) {
+        this.random = options.random ?? defaultRandom;
+        this.scheduler = options.scheduler ?? realScheduler;
+        this.successRate = options.successRate ?? 1;
+        this.latency = options.latency ?? (() => Math.floor(this.random() * 10) * 100);
+        this.socket = options.socket ?? createFakeSocket({ random: this.random, scheduler: this.scheduler });
+        this.faultInjector = new FaultInjector(this.random);
+        this.middlewares = new MiddlewareChain();
+        this.socketMuted = false;
+        this.batchChanges = undefined;
+        this.clientCount = 0;
+        this.users = (options.users ?? []).map((user) => {
+            return { ...user };
+        });
+        (options.faultRules ?? []).forEach((rule) => this.faultInjector.addRule(rule));
+        (options.middlewares ?? []).forEach((middleware) => this.middlewares.add(middleware));
+        if (options.storage) {
+            this.storage = options.storage;
+        } else {
+            this.storage =
+                options.storageKey === undefined ? createMemoryStorage() : createDefaultStorage(options.storageKey);
+        }
+        this.onStorageError = options.onStorageError;
+        this.storageError = undefined;
+        this.trashRetention = options.trashRetention ?? DEFAULT_TRASH_RETENTION;
+        this.histories = new Map();
+        this.pendingChange = undefined;
+        this.idempotentResults = new Map();
+        this.remindersStarted = false;
+        this.remindersCheckedAt = this.scheduler.now();
+        this.reminderTimer = undefined;
+        const persisted = this.loadTodosFromStorage(options.initialData ?? [{ name: 'my first list', items: [] }]);
+        this.todos = persisted.lists;
+        this.trash = persisted.trash;
+        if (options.reminders) {
+            this.startReminders();
+        }
+    }
+
+    /**
+     * Falls back to the initial data when nothing is persisted, or when the payload can not be read: the error is
+     * then reported, and the payload is left untouched until the next change is saved
+     */
+    private loadTodosFromStorage(initialData: TodoListSeed[]): PersistedTodos {
+        let todosFromStorage: string | null;
+        try {
+            todosFromStorage = this.storage.load();
+        } catch (e) {
+            this.reportStorageError(buildErrorResponse(503, `could not load todos: ${errorMessage(e)}`));
+            return this.migrateTodoLists(initialData);
+        }
+        if (todosFromStorage === null) {
+            return this.migrateTodoLists(initialData);
+        }
+        let todosJsonFromStorage: unknown;
+        try {
+            todosJsonFromStorage = JSON.parse(todosFromStorage);
+        } catch (e) {
+            this.reportStorageError(buildErrorResponse(500, `corrupt todos payload: ${errorMessage(e)}`));
+            return this.migrateTodoLists(initialData);
+        }
+        const migrated = migratePersistedTodos(todosJsonFromStorage, this.migrationContext());
+        if ('error' in migrated) {
+            this.reportStorageError(migrated);
+            return this.migrateTodoLists(initialData);
+        }
+        const persisted = migrated.response;
+        try {
+            this.storage.save(serializeTodos(persisted.lists, persisted.trash));
+        } catch (e) {
+            this.reportStorageError(buildErrorResponse(507, `could not save todos: ${errorMessage(e)}`));
+        }
+        return persisted;
+    }
+
+    private reportStorageError(error: ApiResponseError) {
+        this.storageError = error;
+        this.onStorageError?.(error);
+    }
+
+    private migrateTodoLists(initialData: TodoListSeed[]): PersistedTodos {
+        return {
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            lists: completeTodoLists(initialData, this.migrationContext()),
+            trash: { lists: [], todos: [] },
+        };
+    }
+
+    private migrationContext(): MigrationContext {
+        return { generateId: () => this.generateId(), now: this.now() };
+    }
+
+    private now(): string {
+        return toTimestamp(this.scheduler.now());
+    }
+
+    private saveTodoToStorage() {
+        if (this.batchChanges) {
+            return;
+        }
+        try {
+            this.storage.save(serializeTodos(this.todos, this.trash));
+        } catch (e) {
+            const error = buildErrorResponse(507, `could not save todos: ${errorMessage(e)}`);
+            this.reportStorageError(error);
+            throw new StorageSaveError(error);
+        }
+    }
+
+    private generateId(): string {
+        return `${this.scheduler.now().toString(36)}-${this.random().toString(36).slice(2, 10)}`;
+    }
+
+    createClientId(): string {
+        return `client-${this.clientCount++}`;
+    }
+
+    private isSuccess(successRate: number): boolean {
+        return this.random() < successRate;
+    }
+
+    private nextDelay(): number {
+        if (typeof this.latency === 'number') {
+            return this.latency;
+        }
+        if (typeof this.latency === 'function') {
+            return this.latency();
+        }
+        return this.latency.min + this.random() * (this.latency.max - this.latency.min);
+    }
+
+    /**
+     * @param audience Who may receive the message. Defaults to the users allowed to see the lists it is about
+     */
+    private publish(context: RequestContext, message: RawMessage, audience = this.audienceOf(message)) {
+        // The indexes are computed now, as the next changes of a batch move the lists
+        const messages = this.localizedMessages(message, audience);
+        if (messages) {
+            audience = { ...audience, messages };
+        }
+        if (this.batchChanges) {
+            this.batchChanges.push({ message, audience });
+            return;
+        }
+        if (this.socketMuted) {
+            return;
+        }
+        const origin: MessageOrigin = { correlationId: context.correlationId };
+        if (context.clientId !== undefined) {
+            origin.originClientId = context.clientId;
+        }
+        context.sequenceIds.push(this.socket.dispatchMessage(message, origin, audience));
+    }
+
+    /**
+     * @returns The message as received by each user of the audience who does not see all the lists, undefined if they
+     * all receive it unchanged
+     */
+    private localizedMessages(message: RawMessage, audience: MessageAudience): Record<string, RawMessage> | undefined {
+        if (message.type === 'batch') {
+            return undefined;
+        }
+        const messages: Record<string, RawMessage> = {};
+        this.users
+            .filter((user) => !audience.userIds || audience.userIds.includes(user.id))
+            .forEach((user) => {
+                const localizedMessage = this.localizeMessage(message, user.id);
+                if (JSON.stringify(localizedMessage) !== JSON.stringify(message)) {
+                    messages[user.id] = localizedMessage;
+                }
+            });
+        return Object.keys(messages).length > 0 ? messages : undefined;
+    }
+
+    /**
+     * @returns The message with its list indexes turned into positions in the lists the user may see
+     */
+    private localizeMessage(message: RawMessage, userId: string): RawMessage {
+        const indexFor = (index: number, lists = this.todos) => visibleIndex(lists, index, userId);
+        switch (message.type) {
+            case 'deleteList':
+                return { ...message, message: { ...message.message, index: indexFor(message.message.index) } };
+            case 'restoreList':
+                return { ...message, message: { ...message.message, index: indexFor(message.message.index) } };
+            case 'moveList': {
+                // The lists before the source index are counted as they were, without the moved list
+                const otherLists = this.todos.filter((todoList) => todoList.id !== message.message.listId);
+                const sourceIndex = indexFor(message.message.sourceIndex, otherLists);
+                return {
+                    ...message,
+                    message: { ...message.message, sourceIndex, destIndex: indexFor(message.message.destIndex) },
+                };
+            }
+            case 'renameList':
+                return { ...message, message: { ...message.message, listIndex: indexFor(message.message.listIndex) } };
+            case 'listMembers':
+                return { ...message, message: { ...message.message, listIndex: indexFor(message.message.listIndex) } };
+            case 'addToDo':
+                return { ...message, message: { ...message.message, listIndex: indexFor(message.message.listIndex) } };
+            case 'removeTodo':
+                return { ...message, message: { ...message.message, listIndex: indexFor(message.message.listIndex) } };
+            case 'moveTodo':
+                return { ...message, message: { ...message.message, listIndex: indexFor(message.message.listIndex) } };
+            case 'restoreTodo':
+                return { ...message, message: { ...message.message, listIndex: indexFor(message.message.listIndex) } };
+            case 'editTodo':
+                return { ...message, message: { ...message.message, listIndex: indexFor(message.message.listIndex) } };
+            case 'moveTodoToList': {
+                const sourceListIndex = indexFor(message.message.sourceListIndex);
+                const destListIndex = indexFor(message.message.destListIndex);
+                return { ...message, message: { ...message.message, sourceListIndex, destListIndex } };
+            }
+            default:
+                return message;
+        }
+    }
+
+    private audienceOf(message: RawMessage): MessageAudience {
+        switch (message.type) {
+            case 'batch':
+                return {};
+            case 'createList':
+                return readersOf(message.message);
+            case 'listMembers':
+            case 'restoreList':
+                return readersOf(message.message.list);
+            case 'moveTodoToList':
+                return mergeAudiences(
+                    this.audienceOfList(message.message.sourceListId),
+                    this.audienceOfList(message.message.destListId),
+                );
+            default:
+                return this.audienceOfList(message.message.listId);
+        }
+    }
+
+    private audienceOfList(listId: string): MessageAudience {
+        const todoList = this.findAnyList(listId);
+        return todoList ? readersOf(todoList) : {};
+    }
+
+    /**
+     * Finds a list, even deleted
+     */
+    private findAnyList(listId: string): TodoList | undefined {
+        return (
+            this.todos.find((todoList) => todoList.id === listId) ??
+            this.trash.lists.find((entry) => entry.list.id === listId)?.list
+        );
+    }
+
+    private takeSnapshot(): Snapshot {
+        return { todos: this.todos.map(copyTodoList), trash: copyTrash(this.trash) };
+    }
+
+    private restoreSnapshot(snapshot: Snapshot) {
+        this.todos = snapshot.todos;
+        this.trash = snapshot.trash;
+    }
+
+    /**
+     * Adds a change to the history of the session of the request, once the request succeeds.
+     * The changes of a batch make a single entry
+     *
+     * @param undo The operation reverting the change
+     * @param redo The operation applying the change again
+     */
+    private record(context: RequestContext, undo: BatchOperation, redo: BatchOperation) {
+        if (!this.pendingChange) {
+            this.pendingChange = { clientId: context.clientId, entry: { undo: [], redo: [] } };
+        }
+        // Reverting a batch reverts its changes in the reverse order
+        this.pendingChange.entry.undo.unshift(undo);
+        this.pendingChange.entry.redo.push(redo);
+    }
+
+    private commitPendingChange() {
+        if (!this.pendingChange) {
+            return;
+        }
+        const history = this.historyOf(this.pendingChange.clientId);
+        history.undo.push(this.pendingChange.entry);
+        if (history.undo.length > MAX_HISTORY_SIZE) {
+            history.undo.shift();
+        }
+        history.redo = [];
+    }
+
+    historyOf(clientId: string | undefined): SessionHistory {
+        let history = this.histories.get(clientId);
+        if (!history) {
+            history = { undo: [], redo: [] };
+            this.histories.set(clientId, history);
+        }
+        return history;
+    }
+
+    /**
+     * Removes from the trash what was deleted before the retention
+     */
+    private purgeTrash() {
+        const oldestTime = this.scheduler.now() - this.trashRetention;
+        const isKept = (entry: { deletedAt: string }) => Date.parse(entry.deletedAt) >= oldestTime;
+        this.trash = { lists: this.trash.lists.filter(isKept), todos: this.trash.todos.filter(isKept) };
+    }
+
+    private storeIdempotentResult(key: string, result: ApiResponseWrapper<unknown>) {
+        this.idempotentResults.set(key, result);
+        if (this.idempotentResults.size > MAX_IDEMPOTENT_RESULTS) {
+            const [oldestKey] = this.idempotentResults.keys();
+            this.idempotentResults.delete(oldestKey as string);
+        }
+    }
+
+    /**
+     * Runs the handler after a random delay, unless the request randomly fails or a fault rule applies.
+     * An error returned or thrown by the handler rejects the promise
+     *
+     * @param context The request, when it changes the lists. Its idempotency key is checked when the handler would run,
+     * so that a request answered late is not applied after its retry
+     */
+    delayedResponse<T>(
+        operation: ApiOperation,
+        handler: () => ApiResponseWrapper<T>,
+        context?: RequestContext,
+    ): Promise<ApiResponseWrapper<T>> {
+        const faults = this.faultInjector.evaluate(operation);
+        if (faults.some((fault) => fault.type === 'timeout')) {
+            return new Promise(() => undefined);
+        }
+        const extraDelay = faults.reduce((delay, fault) => (fault.type === 'delay' ? delay + fault.delay : delay), 0);
+        const errorFault = faults.find((fault): fault is ErrorFault => fault.type === 'error');
+        const injectedError = errorFault
+            ? buildErrorResponse(errorFault.code, errorFault.description ?? 'injected fault')
+            : undefined;
+        return new Promise((resolve, reject) => {
+            this.scheduler.setTimeout(() => {
+                if (!this.isSuccess(this.successRate)) {
+                    reject(buildErrorResponse(500, 'internal error'));
+                    return;
+                }
+                if (injectedError && !errorFault?.commit) {
+                    reject(injectedError);
+                    return;
+                }
+                const idempotencyKey =
+                    context?.idempotencyKey === undefined
+                        ? undefined
+                        : `${context.clientId ?? ''}:${context.idempotencyKey}`;
+                const previousResult =
+                    idempotencyKey === undefined ? undefined : this.idempotentResults.get(idempotencyKey);
+                if (previousResult) {
+                    resolve(previousResult as ApiResponseWrapper<T>);
+                    return;
+                }
+                this.socketMuted = faults.some((fault) => fault.type === 'dropSocketEvent');
+                const snapshot = this.takeSnapshot();
+                this.pendingChange = undefined;
+                try {
+                    const result = handler();
+                    if (!('error' in result)) {
+                        this.commitPendingChange();
+                        this.scheduleReminders();
+                        if (idempotencyKey !== undefined) {
+                            this.storeIdempotentResult(idempotencyKey, result);
+                        }
+                    }
+                    if (injectedError) {
+                        reject(injectedError);
+                    } else if ('error' in result) {
+                        reject(result);
+                    } else {
+                        resolve(result);
+                    }
+                } catch (e) {
+                    this.restoreSnapshot(snapshot);
+                    reject(e instanceof StorageSaveError ? e.response : buildErrorResponse(500, 'internal error'));
+                } finally {
+                    this.pendingChange = undefined;
+                    this.socketMuted = false;
+                }
+            }, this.nextDelay() + extraDelay);
+        });
+    }
+
+    /**
+     * Publishes the reminder and overdue messages of the times passing from now on
+     */
+    startReminders() {
+        if (this.remindersStarted) {
+            return;
+        }
+        this.remindersStarted = true;
+        this.remindersCheckedAt = this.scheduler.now();
+        this.scheduleReminders();
+    }
+
+    stopReminders() {
+        this.remindersStarted = false;
+        if (this.reminderTimer !== undefined) {
+            this.scheduler.clearTimeout(this.reminderTimer);
+            this.reminderTimer = undefined;
+        }
+    }
+
+    /**
+     * The reminder and overdue messages of the todos that are not done, with their times in milliseconds
+     */
+    private reminderMessages(): { time: number; message: RawMessage }[] {
+        const reminders: { time: number; message: RawMessage }[] = [];
+        this.todos.forEach((todoList) => {
+            todoList.items
+                .filter((todo) => !todo.done)
+                .forEach((todo) => {
+                    const message = { listId: todoList.id, itemId: todo.id, item: { ...todo } };
+                    if (todo.remindAt !== undefined) {
+                        reminders.push({ time: Date.parse(todo.remindAt), message: { type: 'reminder', message } });
+                    }
+                    const dueTime = getDueTime(todo);
+                    if (dueTime !== undefined) {
+                        reminders.push({ time: dueTime, message: { type: 'overdue', message } });
+                    }
+                });
+        });
+        return reminders;
+    }
+
+    /**
+     * Sets the timer to the next reminder or overdue time, called again after each change
+     */
+    private scheduleReminders() {
+        if (!this.remindersStarted) {
+            return;
+        }
+        if (this.reminderTimer !== undefined) {
+            this.scheduler.clearTimeout(this.reminderTimer);
+            this.reminderTimer = undefined;
+        }
+        const nextTime = this.reminderMessages().reduce(
+            (time, reminder) => (reminder.time > this.remindersCheckedAt ? Math.min(time, reminder.time) : time),
+            Infinity,
+        );
+        if (nextTime === Infinity) {
+            return;
+        }
+        const delay = Math.min(Math.max(0, nextTime - this.scheduler.now()), MAX_TIMER_DELAY);
+        this.reminderTimer = this.scheduler.setTimeout(() => {
+            this.reminderTimer = undefined;
+            this.publishReminders();
+        }, delay);
+    }
+
+    private publishReminders() {
+        const now = this.scheduler.now();
+        const context: RequestContext = {
+            clientId: undefined,
+            userId: undefined,
+            correlationId: `reminders-${now}`,
+            expectedVersion: undefined,
+            idempotencyKey: undefined,
+            sequenceIds: [],
+        };
+        this.reminderMessages()
+            .filter((reminder) => reminder.time > this.remindersCheckedAt && reminder.time <= now)
+            .sort((a, b) => a.time - b.time)
+            .forEach((reminder) => this.publish(context, reminder.message));
+        this.remindersCheckedAt = now;
+        this.scheduleReminders();
+    }
+
+    private findListIndex(listId: string): number {
+        return this.todos.findIndex((todoList) => todoList.id === listId);
+    }
+
+    private findItemIndex(todoList: TodoList, todoId: string): number {
+        return todoList.items.findIndex((todo) => todo.id === todoId);
+    }
+
+    /**
+     * The lists the user may see. The indexes given to the api are indexes in these lists
+     */
+    private visibleLists(userId: string | undefined): TodoList[] {
+        return this.todos.filter((todoList) => canAccess(userId, todoList, 'read'));
+    }
+
+    listIdAt(listIndex: number, userId: string | undefined): string | undefined {
+        return this.visibleLists(userId)[listIndex]?.id;
+    }
+
+    itemIdAt(listIndex: number, itemIndex: number, userId: string | undefined): string | undefined {
+        return this.visibleLists(userId)[listIndex]?.items[itemIndex]?.id;
+    }
+
+    countLists(userId: string | undefined): number {
+        return this.visibleLists(userId).length;
+    }
+
+    findUser(userId: string): User | undefined {
+        return this.users.find((user) => user.id === userId);
+    }
+
+    getUsers(): User[] {
+        return this.users.map((user) => {
+            return { ...user };
+        });
+    }
+
+    getTodoLists(userId: string | undefined): TodoList[] {
+        // Avoid returning references to items in my local variable so that it is not modified accidentally by caller
+        return this.visibleLists(userId).map(copyTodoList);
+    }
+
+    getTodoList(listId: string, userId: string | undefined): ApiResponseWrapper<TodoList> {
+        const todoList = this.todos[this.findListIndex(listId)];
+        if (!todoList) {
+            return buildErrorResponse(404, 'could not find todolist');
+        }
+        if (!canAccess(userId, todoList, 'read')) {
+            return buildErrorResponse(403, 'forbidden');
+        }
+        return {
+            response: copyTodoList(todoList),
+        };
+    }
+
+    queryTodos(query: TodoQuery, userId: string | undefined): ApiResponseWrapper<TodoPage> {
+        const todoList = query.listId === undefined ? undefined : this.todos[this.findListIndex(query.listId)];
+        if (todoList && !canAccess(userId, todoList, 'read')) {
+            return buildErrorResponse(403, 'forbidden');
+        }
+        return queryTodos(this.visibleLists(userId), query);
+    }
+
+    /**
+     * @returns A 422 error if the assignee is not a user allowed to see the list
+     */
+    private checkAssignee(todoList: TodoList, assigneeId: string | null | undefined): ApiResponseError | undefined {
+        if (assigneeId === undefined || assigneeId === null) {
+            return undefined;
+        }
+        if (!this.findUser(assigneeId)) {
+            return buildValidationErrorResponse([{ field: 'assigneeId', message: 'unknown user' }]);
+        }
+        if (!canAccess(assigneeId, todoList, 'read')) {
+            return buildValidationErrorResponse([{ field: 'assigneeId', message: 'must be allowed to see the list' }]);
+        }
+        return undefined;
+    }
+
+    createList(context: RequestContext, name: string): ApiResponseWrapper<TodoList> {
+        const fields = validateListName(name);
+        if (fields.length > 0) {
+            return buildValidationErrorResponse(fields);
+        }
+        const todoList: TodoList = {
+            id: this.generateId(),
+            name,
+            version: 1,
+            items: [],
+        };
+        if (context.userId !== undefined) {
+            todoList.ownerId = context.userId;
+        }
+        this.todos.push(todoList);
+        this.saveTodoToStorage();
+        this.publish(context, {
+            type: 'createList',
+            message: copyTodoList(todoList),
+        });
+        this.record(context, { type: 'deleteList', listId: todoList.id }, { type: 'restoreList', listId: todoList.id });
+        return {
+            response: copyTodoList(todoList),
+        };
+    }
+
+    deleteList(context: RequestContext, listId: string): ApiResponseWrapper<boolean> {
+        const listIndex = this.findListIndex(listId);
+        const todoList = this.todos[listIndex];
+        if (!todoList) {
+            return buildErrorResponse(404, 'could not find todolist');
+        }
+        const forbidden = checkAccess(context, todoList, 'owner');
+        if (forbidden) {
+            return forbidden;
+        }
+        const conflict = checkVersion(context, todoList);
+        if (conflict) {
+            return conflict;
+        }
+        this.todos.splice(listIndex, 1);
+        this.purgeTrash();
+        this.trash.lists.push({ list: todoList, index: listIndex, deletedAt: this.now() });
+        this.saveTodoToStorage();
+        this.publish(context, {
+            type: 'deleteList',
+            message: {
+                index: listIndex,
+                listId,
+            },
+        });
+        this.record(context, { type: 'restoreList', listId }, { type: 'deleteList', listId });
+        return {
+            response: true,
+        };
+    }
+
+    renameList(context: RequestContext, listId: string, name: string): ApiResponseWrapper<boolean> {
+        const listIndex = this.findListIndex(listId);
+        const todoList = this.todos[listIndex];
+        if (!todoList) {
+            return buildErrorResponse(404, 'could not find todolist');
+        }
+        const forbidden = checkAccess(context, todoList, 'write');
+        if (forbidden) {
+            return forbidden;
+        }
+        const conflict = checkVersion(context, todoList);
+        if (conflict) {
+            return conflict;
+        }
+        const fields = validateListName(name);
+        if (fields.length > 0) {
+            return buildValidationErrorResponse(fields);
+        }
+        if (todoList.name === name) {
+            return {
+                response: true,
+            };
+        }
+        const previousName = todoList.name;
+        todoList.name = name;
+        todoList.version++;
+        this.saveTodoToStorage();
+        this.publish(context, {
+            type: 'renameList',
+            message: {
+                listIndex,
+                listId,
+                name,
+                listVersion: todoList.version,
+            },
+        });
+        this.record(context, { type: 'renameList', listId, name: previousName }, { type: 'renameList', listId, name });
+        return {
+            response: true,
+        };
+    }
+
+    moveList(context: RequestContext, listId: string, destIndex: number): ApiResponseWrapper<boolean> {
+        const sourceIndex = this.findListIndex(listId);
+        const todoList = this.todos[sourceIndex];
+        if (!todoList) {
+            return buildErrorResponse(404, 'could not find todolist');
+        }
+        // The indexes given by the user are positions in the lists they may see
+        const visibleLists = this.visibleLists(context.userId);
+        if (!isIndexWithin(destIndex, visibleLists.length - 1)) {
+            return buildErrorResponse(400, 'index out of bound');
+        }
+        const forbidden = checkAccess(context, todoList, 'write');
+        if (forbidden) {
+            return forbidden;
+        }
+        const conflict = checkVersion(context, todoList);
+        if (conflict) {
+            return conflict;
+        }
+        const visibleSourceIndex = visibleLists.indexOf(todoList);
+        if (visibleSourceIndex === destIndex) {
+            return {
+                response: true,
+            };
+        }
+        this.todos.splice(sourceIndex, 1);
+        // The list goes before the one the user sees at destIndex once it is removed, or after the last one they see
+        const otherLists = visibleLists.filter((visibleList) => visibleList !== todoList);
+        const nextList = otherLists[destIndex];
+        const previousList = otherLists[otherLists.length - 1];
+        const globalDestIndex = nextList
+            ? this.todos.indexOf(nextList)
+            : previousList
+            ? this.todos.indexOf(previousList) + 1
+            : sourceIndex;
+        this.todos.splice(globalDestIndex, 0, todoList);
+        this.saveTodoToStorage();
+        this.publish(context, {
+            type: 'moveList',
+            message: {
+                listId,
+                sourceIndex,
+                destIndex: globalDestIndex,
+            },
+        });
+        this.record(
+            context,
+            { type: 'moveList', listId, destIndex: visibleSourceIndex },
+            { type: 'moveList', listId, destIndex },
+        );
+        return {
+            response: true,
+        };
+    }
+
+    /**
+     * Replaces the members of a list. The users losing access also receive the message
+     */
+    setListMembers(context: RequestContext, listId: string, members: ListMember[]): ApiResponseWrapper<boolean> {
+        const listIndex = this.findListIndex(listId);
+        const todoList = this.todos[listIndex];
+        if (!todoList) {
+            return buildErrorResponse(404, 'could not find todolist');
+        }
+        const forbidden = checkAccess(context, todoList, 'owner');
+        if (forbidden) {
+            return forbidden;
+        }
+        if (todoList.ownerId === undefined) {
+            return buildErrorResponse(400, 'a list without owner can not be shared');
+        }
+        const conflict = checkVersion(context, todoList);
+        if (conflict) {
+            return conflict;
+        }
+        const fields = validateListMembers(members);
+        if (fields.length === 0) {
+            members.forEach((member, index) => {
+                if (!this.findUser(member.userId)) {
+                    fields.push({ field: `members[${index}].userId`, message: 'unknown user' });
+                } else if (member.userId === todoList.ownerId) {
+                    fields.push({ field: `members[${index}].userId`, message: 'is the owner of the list' });
+                }
+            });
+        }
+        if (fields.length > 0) {
+            return buildValidationErrorResponse(fields);
+        }
+        const previousMembers = todoList.members ?? [];
+        const previousAudience = readersOf(todoList);
+        todoList.members = members.map((member) => {
+            return { userId: member.userId, role: member.role };
+        });
+        todoList.version++;
+        this.saveTodoToStorage();
+        const message: RawMessage = {
+            type: 'listMembers',
+            message: {
+                listIndex,
+                list: copyTodoList(todoList),
+            },
+        };
+        this.publish(context, message, mergeAudiences(previousAudience, this.audienceOf(message)));
+        this.record(
+            context,
+            { type: 'setListMembers', listId, members: previousMembers },
+            { type: 'setListMembers', listId, members: todoList.members },
+        );
+        return {
+            response: true,
+        };
+    }
+
+    addTodo(context: RequestContext, listId: string, item: TodoInput): ApiResponseWrapper<string> {
+        const listIndex = this.findListIndex(listId);
+        const currentList = this.todos[listIndex];
+        if (!currentList) {
+            return buildErrorResponse(404, 'could not find todolist');
+        }
+        const forbidden = checkAccess(context, currentList, 'write');
+        if (forbidden) {
+            return forbidden;
+        }
+        const conflict = checkVersion(context, currentList);
+        if (conflict) {
+            return conflict;
+        }
+        const fields = validateTodoInput(item);
+        if (fields.length > 0) {
+            return buildValidationErrorResponse(fields);
+        }
+        const invalidAssignee = this.checkAssignee(currentList, item.assigneeId);
+        if (invalidAssignee) {
+            return invalidAssignee;
+        }
+        const todo = buildTodo(item, this.generateId(), this.now());
+        currentList.items.push(todo);
+        currentList.version++;
+        this.saveTodoToStorage();
+        this.publish(context, {
+            type: 'addToDo',
+            message: {
+                listIndex,
+                listId,
+                listVersion: currentList.version,
+                item: { ...todo },
+            },
+        });
+        this.record(context, { type: 'removeTodo', listId, todoId: todo.id }, { type: 'restoreTodo', todoId: todo.id });
+        return {
+            response: todo.id,
+        };
+    }
+
+    removeTodo(context: RequestContext, listId: string, todoId: string): ApiResponseWrapper<boolean> {
+        const listIndex = this.findListIndex(listId);
+        const currentList = this.todos[listIndex];
+        if (!currentList) {
+            return buildErrorResponse(404, 'could not find todolist');
+        }
+        const itemIndex = this.findItemIndex(currentList, todoId);
+        const todo = currentList.items[itemIndex];
+        if (!todo) {
+            return buildErrorResponse(404, 'could not find todo');
+        }
+        const forbidden = checkAccess(context, currentList, 'write');
+        if (forbidden) {
+            return forbidden;
+        }
+        const conflict = checkVersion(context, todo);
+        if (conflict) {
+            return conflict;
+        }
+        currentList.items.splice(itemIndex, 1);
+        currentList.version++;
+        this.purgeTrash();
+        this.trash.todos.push({ todo, listId, index: itemIndex, deletedAt: this.now() });
+        this.saveTodoToStorage();
+        this.publish(context, {
+            type: 'removeTodo',
+            message: {
+                listIndex,
+                listId,
+                itemIndex,
+                itemId: todoId,
+                listVersion: currentList.version,
+            },
+        });
+        this.record(context, { type: 'restoreTodo', todoId }, { type: 'removeTodo', listId, todoId });
+        return {
+            response: true,
+        };
+    }
+
+    moveTodo(context: RequestContext, listId: string, todoId: string, destIndex: number): ApiResponseWrapper<boolean> {
+        const listIndex = this.findListIndex(listId);
+        const todoList = this.todos[listIndex];
+        if (!todoList) {
+            return buildErrorResponse(404, 'Could not find todolist');
+        }
+        const sourceIndex = this.findItemIndex(todoList, todoId);
+        if (sourceIndex === -1) {
+            return buildErrorResponse(404, 'could not find todo');
+        }
+        if (!isIndexWithin(destIndex, todoList.items.length - 1)) {
+            return buildErrorResponse(400, 'index out of bound');
+        }
+        const forbidden = checkAccess(context, todoList, 'write');
+        if (forbidden) {
+            return forbidden;
+        }
+        const conflict = checkVersion(context, todoList);
+        if (conflict) {
+            return conflict;
+        }
+        const todo = todoList.items.splice(sourceIndex, 1);
+        todoList.items.splice(destIndex, 0, ...todo);
+        todoList.version++;
+        this.saveTodoToStorage();
+        this.publish(context, {
+            type: 'moveTodo',
+            message: {
+                listIndex,
+                listId,
+                itemId: todoId,
+                sourceIndex,
+                destIndex,
+                listVersion: todoList.version,
+            },
+        });
+        this.record(
+            context,
+            { type: 'moveTodo', listId, todoId, destIndex: sourceIndex },
+            { type: 'moveTodo', listId, todoId, destIndex },
+        );
+        return {
+            response: true,
+        };
+    }
+
+    /**
+     * Moves a todo to another list. The version expected by the client is the one of the source list
+     */
+    moveTodoToList(
+        context: RequestContext,
+        sourceListId: string,
+        todoId: string,
+        destListId: string,
+        destIndex: number,
+    ): ApiResponseWrapper<boolean> {
+        if (sourceListId === destListId) {
+            return this.moveTodo(context, sourceListId, todoId, destIndex);
+        }
+        const sourceListIndex = this.findListIndex(sourceListId);
+        const sourceList = this.todos[sourceListIndex];
+        const destListIndex = this.findListIndex(destListId);
+        const destList = this.todos[destListIndex];
+        if (!sourceList || !destList) {
+            return buildErrorResponse(404, 'could not find todolist');
+        }
+        const sourceIndex = this.findItemIndex(sourceList, todoId);
+        const todo = sourceList.items[sourceIndex];
+        if (!todo) {
+            return buildErrorResponse(404, 'could not find todo');
+        }
+        if (!isIndexWithin(destIndex, destList.items.length)) {
+            return buildErrorResponse(400, 'index out of bound');
+        }
+        const forbidden = checkAccess(context, sourceList, 'write') ?? checkAccess(context, destList, 'write');
+        if (forbidden) {
+            return forbidden;
+        }
+        const conflict = checkVersion(context, sourceList);
+        if (conflict) {
+            return conflict;
+        }
+        sourceList.items.splice(sourceIndex, 1);
+        destList.items.splice(destIndex, 0, todo);
+        sourceList.version++;
+        destList.version++;
+        this.saveTodoToStorage();
+        this.publish(context, {
+            type: 'moveTodoToList',
+            message: {
+                itemId: todoId,
+                item: { ...todo },
+                sourceListIndex,
+                sourceListId,
+                sourceIndex,
+                sourceListVersion: sourceList.version,
+                destListIndex,
+                destListId,
+                destIndex,
+                destListVersion: destList.version,
+            },
+        });
+        this.record(
+            context,
+            {
+                type: 'moveTodoToList',
+                sourceListId: destListId,
+                todoId,
+                destListId: sourceListId,
+                destIndex: sourceIndex,
+            },
+            { type: 'moveTodoToList', sourceListId, todoId, destListId, destIndex },
+        );
+        return {
+            response: true,
+        };
+    }
+
+    editTodo(
+        context: RequestContext,
+        listId: string,
+        todoId: string,
+        newValue: TodoPatch,
+    ): ApiResponseWrapper<boolean> {
+        const listIndex = this.findListIndex(listId);
+        const todoList = this.todos[listIndex];
+        if (!todoList) {
+            return buildErrorResponse(404, 'could not find todolist');
+        }
+        const itemIndex = this.findItemIndex(todoList, todoId);
+        const currentTodo = todoList.items[itemIndex];
+        if (!currentTodo) {
+            return buildErrorResponse(404, 'could not find todo');
+        }
+        const forbidden = checkAccess(context, todoList, 'write');
+        if (forbidden) {
+            return forbidden;
+        }
+        const conflict = checkVersion(context, currentTodo);
+        if (conflict) {
+            return conflict;
+        }
+        const fields = validateTodoPatch(newValue);
+        if (fields.length > 0) {
+            return buildValidationErrorResponse(fields);
+        }
+        const invalidAssignee = this.checkAssignee(todoList, newValue.assigneeId);
+        if (invalidAssignee) {
+            return invalidAssignee;
+        }
+        const { todo, changedFields } = applyTodoPatch(currentTodo, newValue, this.now());
+        if (changedFields.length === 0) {
+            return {
+                response: true,
+            };
+        }
+        // The recurrence moves to the next occurrence, so that completing the todo again does not add another one
+        const nextOccurrence =
+            changedFields.includes('done') && todo.done
+                ? buildNextOccurrence(todo, this.generateId(), this.scheduler.now())
+                : undefined;
+        if (nextOccurrence) {
+            delete todo.recurrence;
+            changedFields.push('recurrence');
+            todoList.items.push(nextOccurrence);
+            todoList.version++;
+        }
+        todoList.items[itemIndex] = todo;
+        this.saveTodoToStorage();
+        this.publish(context, {
+            type: 'editTodo',
+            message: {
+                listIndex,
+                listId,
+                itemIndex,
+                itemId: todoId,
+                newValue: { ...todo },
+                changedFields,
+            },
+        });
+        this.record(
+            context,
+            { type: 'editTodo', listId, todoId, newValue: buildRevertPatch(currentTodo, changedFields) },
+            { type: 'editTodo', listId, todoId, newValue: buildRevertPatch(todo, changedFields) },
+        );
+        if (nextOccurrence) {
+            this.publish(context, {
+                type: 'addToDo',
+                message: {
+                    listIndex,
+                    listId,
+                    listVersion: todoList.version,
+                    item: { ...nextOccurrence },
+                },
+            });
+            this.record(
+                context,
+                { type: 'removeTodo', listId, todoId: nextOccurrence.id },
+                { type: 'restoreTodo', todoId: nextOccurrence.id },
+            );
+        }
+        return {
+            response: true,
+        };
+    }
+
+    /**
+     * Applies several changes all or nothing. They are saved and published once, as a batch message
+     */
+    private applyAtomically<T>(context: RequestContext, apply: () => ApiResponseWrapper<T>): ApiResponseWrapper<T> {
+        const snapshot = this.takeSnapshot();
+        const changes: BatchChange[] = [];
+        let result: ApiResponseWrapper<T>;
+        this.batchChanges = changes;
+        try {
+            result = apply();
+        } finally {
+            this.batchChanges = undefined;
+        }
+        if ('error' in result) {
+            this.restoreSnapshot(snapshot);
+            return result;
+        }
+        if (changes.length > 0) {
+            this.saveTodoToStorage();
+            this.publish(
+                context,
+                {
+                    type: 'batch',
+                    message: {
+                        changes: changes.map((change) => change.message),
+                    },
+                },
+                { changes: changes.map((change) => change.audience) },
+            );
+        }
+        return result;
+    }
+
+    batch(context: RequestContext, operations: BatchOperation[]): ApiResponseWrapper<BatchResult[]> {
+        const fields = validateBatchOperations(operations);
+        if (fields.length > 0) {
+            return buildValidationErrorResponse(fields);
+        }
+        return this.applyAtomically(context, () => {
+            const results: BatchResult[] = [];
+            for (const [operationIndex, operation] of operations.entries()) {
+                const result = this.applyOperation(
+                    { ...context, expectedVersion: operation.expectedVersion },
+                    operation,
+                );
+                if ('error' in result) {
+                    result.error.operationIndex = operationIndex;
+                    return result;
+                }
+                results.push(result.response);
+            }
+            return {
+                response: results,
+            };
+        });
+    }
+
+    exportData(format: DataFormat, userId: string | undefined): ApiResponseWrapper<string> {
+        return exportLists(this.visibleLists(userId), format, this.now());
+    }
+
+    /**
+     * Adds the imported lists, as a single change. When merged, the todos of a list named like an existing one the user
+     * can change are added to the existing list. When replacing, the lists the user owns go to the trash
+     */
+    importData(context: RequestContext, lists: ImportedList[], mode: ImportMode): ApiResponseWrapper<ImportSummary> {
+        return this.applyAtomically(context, () => {
+            if (mode === 'replace') {
+                for (const todoList of this.todos.filter((list) => canAccess(context.userId, list, 'owner'))) {
+                    const deleted = this.deleteList(context, todoList.id);
+                    if ('error' in deleted) {
+                        return deleted;
+                    }
+                }
+            }
+            let todoCount = 0;
+            for (const importedList of lists) {
+                let listId = this.todos.find((todoList) => {
+                    return todoList.name === importedList.name && canAccess(context.userId, todoList, 'write');
+                })?.id;
+                if (listId === undefined) {
+                    const created = this.createList(context, importedList.name);
+                    if ('error' in created) {
+                        return created;
+                    }
+                    listId = created.response.id;
+                }
+                for (const item of importedList.items) {
+                    const added = this.addTodo(context, listId, item);
+                    if ('error' in added) {
+                        return added;
+                    }
+                    todoCount++;
+                }
+            }
+            return {
+                response: { listCount: lists.length, todoCount },
+            };
+        });
+    }
+
+    private applyOperation(context: RequestContext, operation: BatchOperation): ApiResponseWrapper<BatchResult> {
+        switch (operation.type) {
+            case 'createList':
+                return this.createList(context, operation.name);
+            case 'deleteList':
+                return this.deleteList(context, operation.listId);
+            case 'renameList':
+                return this.renameList(context, operation.listId, operation.name);
+            case 'moveList':
+                return this.moveList(context, operation.listId, operation.destIndex);
+            case 'setListMembers':
+                return this.setListMembers(context, operation.listId, operation.members);
+            case 'addTodo':
+                return this.addTodo(context, operation.listId, operation.item);
+            case 'removeTodo':
+                return this.removeTodo(context, operation.listId, operation.todoId);
+            case 'moveTodo':
+                return this.moveTodo(context, operation.listId, operation.todoId, operation.destIndex);
+            case 'moveTodoToList':
+                return this.moveTodoToList(
+                    context,
+                    operation.sourceListId,
+                    operation.todoId,
+                    operation.destListId,
+                    operation.destIndex,
+                );
+            case 'editTodo':
+                return this.editTodo(context, operation.listId, operation.todoId, operation.newValue);
+            case 'restoreList':
+                return this.restoreList(context, operation.listId);
+            case 'restoreTodo':
+                return this.restoreTodo(context, operation.todoId);
+            default:
+                return buildValidationErrorResponse([{ field: 'type', message: 'unknown operation' }]);
+        }
+    }
+
+    undo(context: RequestContext): ApiResponseWrapper<boolean> {
+        const history = this.historyOf(context.clientId);
+        const entry = history.undo[history.undo.length - 1];
+        if (!entry) {
+            return buildErrorResponse(400, 'nothing to undo');
+        }
+        // The entry is only taken off once replayed, so that it survives the replay failing to be saved
+        const result = this.replay(context, entry.undo);
+        history.undo.pop();
+        if ('error' in result) {
+            return result;
+        }
+        history.redo.push(entry);
+        return {
+            response: true,
+        };
+    }
+
+    redo(context: RequestContext): ApiResponseWrapper<boolean> {
+        const history = this.historyOf(context.clientId);
+        const entry = history.redo[history.redo.length - 1];
+        if (!entry) {
+            return buildErrorResponse(400, 'nothing to redo');
+        }
+        // The entry is only taken off once replayed, so that it survives the replay failing to be saved
+        const result = this.replay(context, entry.redo);
+        history.redo.pop();
+        if ('error' in result) {
+            return result;
+        }
+        history.undo.push(entry);
+        return {
+            response: true,
+        };
+    }
+
+    /**
+     * Applies the operations of a history entry. They are not recorded as a new change
+     */
+    private replay(context: RequestContext, operations: BatchOperation[]): ApiResponseWrapper<unknown> {
+        const [operation] = operations;
+        const result =
+            operations.length === 1 && operation
+                ? this.applyOperation({ ...context, expectedVersion: undefined }, operation)
+                : this.batch(context, operations);
+        this.pendingChange = undefined;
+        return result;
+    }
+
+    /**
+     * @returns The deleted lists and todos of the lists the user may see
+     */
+    getTrash(userId: string | undefined): ApiResponseWrapper<Trash> {
+        this.purgeTrash();
+        const isVisible = (listId: string) => {
+            const todoList = this.findAnyList(listId);
+            return userId === undefined || (todoList !== undefined && canAccess(userId, todoList, 'read'));
+        };
+        const trash = copyTrash(this.trash);
+        return {
+            response: {
+                lists: trash.lists.filter((entry) => isVisible(entry.list.id)),
+                todos: trash.todos.filter((entry) => isVisible(entry.listId)),
+            },
+        };
+    }
+
+    restoreList(context: RequestContext, listId: string): ApiResponseWrapper<boolean> {
+        this.purgeTrash();
+        const trashIndex = this.trash.lists.findIndex((entry) => entry.list.id === listId);
+        const trashedList = this.trash.lists[trashIndex];
+        if (!trashedList) {
+            return buildErrorResponse(404, 'could not find todolist in trash');
+        }
+        const forbidden = checkAccess(context, trashedList.list, 'owner');
+        if (forbidden) {
+            return forbidden;
+        }
+        const conflict = checkVersion(context, trashedList.list);
+        if (conflict) {
+            return conflict;
+        }
+        // The lists may have changed since the deletion
+        const index = Math.min(trashedList.index, this.todos.length);
+        this.trash.lists.splice(trashIndex, 1);
+        this.todos.splice(index, 0, trashedList.list);
+        this.saveTodoToStorage();
+        this.publish(context, {
+            type: 'restoreList',
+            message: {
+                index,
+                list: copyTodoList(trashedList.list),
+            },
+        });
+        this.record(context, { type: 'deleteList', listId }, { type: 'restoreList', listId });
+        return {
+            response: true,
+        };
+    }
+
+    restoreTodo(context: RequestContext, todoId: string): ApiResponseWrapper<boolean> {
+        this.purgeTrash();
+        const trashIndex = this.trash.todos.findIndex((entry) => entry.todo.id === todoId);
+        const trashedTodo = this.trash.todos[trashIndex];
+        if (!trashedTodo) {
+            return buildErrorResponse(404, 'could not find todo in trash');
+        }
+        const { listId, todo } = trashedTodo;
+        const listIndex = this.findListIndex(listId);
+        const todoList = this.todos[listIndex];
+        if (!todoList) {
+            return buildErrorResponse(404, 'could not find todolist');
+        }
+        const forbidden = checkAccess(context, todoList, 'write');
+        if (forbidden) {
+            return forbidden;
+        }
+        const conflict = checkVersion(context, todoList);
+        if (conflict) {
+            return conflict;
+        }
+        const itemIndex = Math.min(trashedTodo.index, todoList.items.length);
+        this.trash.todos.splice(trashIndex, 1);
+        todoList.items.splice(itemIndex, 0, todo);
+        todoList.version++;
+        this.saveTodoToStorage();
+        this.publish(context, {
+            type: 'restoreTodo',
+            message: {
+                listIndex,
+                listId,
+                itemIndex,
+                item: { ...todo },
+                listVersion: todoList.version,
+            },
+        });
+        this.record(context, { type: 'removeTodo', listId, todoId }, { type: 'restoreTodo', todoId });
+        return {
+            response: true,
+        };
+    }
+}
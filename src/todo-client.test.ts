@@ -0,0 +1,141 @@
+import { createVirtualScheduler, VirtualScheduler } from './scheduler';
+import { createTestApi, createTestApiWithList, responseOf, settle } from './test-helpers';
+import { TodoApi } from './todo-api';
+import { createTodoClient, TodoClient } from './todo-client';
+
+describe('TodoClient', () => {
+    let scheduler: VirtualScheduler;
+    let api: TodoApi;
+    let listId: string;
+
+    /**
+     * Moves the clock forward step by step, letting the answers of the api arrive before the timeouts of the client
+     */
+    async function advance(delay: number) {
+        for (let elapsed = 0; elapsed < delay; elapsed += 10) {
+            scheduler.advanceBy(10);
+            await new Promise((resolve) => setImmediate(resolve));
+        }
+    }
+
+    function descriptions(client: TodoClient): string[] | undefined {
+        return client.getLists()[0]?.items.map((todo) => todo.description);
+    }
+
+    beforeEach(async () => {
+        scheduler = createVirtualScheduler();
+        ({ api, listId } = await createTestApiWithList(scheduler, { latency: 10 }));
+    });
+
+    it('listens to the socket of the api when no socket is given', async () => {
+        const client = createTodoClient({ api });
+        await advance(100);
+        const added = api.addTodoById(listId, { description: 'Milk', done: false });
+        await advance(100);
+        responseOf(await added);
+        expect(descriptions(client)).toEqual(['Milk']);
+        client.close();
+    });
+
+    it('retries a failed change with the same idempotency key, so that it is applied once', async () => {
+        api.addFaultRule({ operation: 'addTodoById', effect: { type: 'error', code: 503, commit: true }, times: 1 });
+        const addTodoById = jest.spyOn(api, 'addTodoById');
+        const client = createTodoClient({ api });
+        const added = client.addTodo(listId, { description: 'Milk', done: false });
+        await advance(1000);
+        const todoId = responseOf(await added);
+        const [first, second] = addTodoById.mock.calls.map(([, , options]) => options?.idempotencyKey);
+        expect(addTodoById).toHaveBeenCalledTimes(2);
+        expect(first).toBeDefined();
+        expect(second).toBe(first);
+        const todoList = responseOf(await settle(scheduler, api.getTodoList(listId)));
+        expect(todoList.items.map((todo) => todo.id)).toEqual([todoId]);
+        expect(descriptions(client)).toEqual(['Milk']);
+        expect(client.getOperations()).toEqual([]);
+        client.close();
+    });
+
+    it('fails without retrying when the server rejects the change', async () => {
+        const client = createTodoClient({ api });
+        const removed = client.removeTodo(listId, 'unknown').catch((error: unknown) => error);
+        await advance(1000);
+        expect(await removed).toMatchObject({ error: { code: 404 } });
+        expect(client.getOperations()).toMatchObject([{ operation: 'removeTodoById', status: 'failed', attempts: 1 }]);
+        client.close();
+    });
+
+    it('fails once out of attempts', async () => {
+        api.addFaultRule({ operation: 'addTodoById', effect: { type: 'error', code: 503 } });
+        const client = createTodoClient({ api, maxAttempts: 3 });
+        const added = client.addTodo(listId, { description: 'Milk', done: false }).catch((error: unknown) => error);
+        await advance(2000);
+        expect(await added).toMatchObject({ error: { code: 503 } });
+        expect(client.getOperations()).toMatchObject([{ status: 'failed', attempts: 3 }]);
+        client.close();
+    });
+
+    it('queues the changes while offline and sends them in order once online', async () => {
+        const client = createTodoClient({ api });
+        await advance(100);
+        client.setOffline(true);
+        const added = client.addTodo(listId, { description: 'Milk', done: false });
+        void client.renameList(listId, 'Shopping');
+        await advance(1000);
+        expect(client.getOperations().map((operation) => operation.status)).toEqual(['queued', 'queued']);
+        expect(responseOf(await settle(scheduler, api.getTodoList(listId))).items).toEqual([]);
+        client.setOffline(false);
+        await advance(1000);
+        responseOf(await added);
+        expect(client.getOperations()).toEqual([]);
+        expect(client.getLists()).toMatchObject([{ name: 'Shopping', items: [{ description: 'Milk' }] }]);
+        client.close();
+    });
+
+    it('fails an operation, instead of leaving it pending, when a listener throws', async () => {
+        const client = createTodoClient({ api });
+        await advance(100);
+        client.subscribe(() => {
+            if (client.getOperations().some((operation) => operation.status === 'pending')) {
+                throw new Error('broken listener');
+            }
+        });
+        const added = client.addTodo(listId, { description: 'Milk', done: false }).catch((error: unknown) => error);
+        await advance(1000);
+        expect(await added).toMatchObject({ error: { code: 500 } });
+        expect(client.getOperations()).toMatchObject([{ status: 'failed', error: { error: { code: 500 } } }]);
+        client.close();
+    });
+
+    it('keeps the members of the lists in its copies', async () => {
+        const users = [
+            { id: 'ann', name: 'Ann' },
+            { id: 'bob', name: 'Bob' },
+        ];
+        const ann = createTestApi(scheduler, { latency: 10, users }).asUser('ann');
+        const sharedListId = responseOf(await settle(scheduler, ann.createListWithId('Groceries')));
+        await settle(scheduler, ann.setListMembers(sharedListId, [{ userId: 'bob', role: 'write' }]));
+        const client = createTodoClient({ api: ann });
+        await advance(100);
+        const [todoList] = client.getLists();
+        expect(todoList?.members).toEqual([{ userId: 'bob', role: 'write' }]);
+        todoList?.members?.pop();
+        expect(client.getLists()[0]?.members).toHaveLength(1);
+        client.close();
+    });
+
+    it('reloads the lists when socket messages were missed', async () => {
+        const client = createTodoClient({ api });
+        await advance(100);
+        const refresh = jest.spyOn(client, 'refresh');
+        client.setOffline(true);
+        // More changes than the socket keeps, so that the client can not catch up from the history
+        for (let i = 0; i < 101; i++) {
+            await settle(scheduler, api.addTodoById(listId, { description: `Todo ${i}`, done: false }));
+        }
+        client.setOffline(false);
+        await advance(100);
+        expect(refresh).toHaveBeenCalled();
+        expect(descriptions(client)).toHaveLength(101);
+        client.close();
+    });
+});
@@ -0,0 +1,420 @@
+import { buildErrorResponse, isApiResponseError } from './errors';
+import { FakeSocket, ListenerOptions, RawMessage, SocketClient } from './fake-socket';
+import { Scheduler } from './scheduler';
+import {
+    ApiOperation,
+    ApiResponseError,
+    ApiResponseWrapper,
+    RequestOptions,
+    TodoApi,
+    todoApi,
+    TodoInput,
+    TodoList,
+    TodoPatch,
+} from './todo-api';
+import { applySocketMessage, copyTodoList } from './todo-reducer';
+
+/**
+ * queued: waiting for the previous operations, or for the client to be online
+ * pending: sent, waiting for the answer
+ * retrying: the last attempt failed, waiting before the next one
+ * failed: rejected by the server, or out of attempts
+ */
+export type ClientOperationStatus = 'queued' | 'pending' | 'retrying' | 'failed';
+
+/**
+ * A change requested through the client that did not succeed yet
+ */
+export type ClientOperation = {
+    id: string;
+    /** The api method called */
+    operation: ApiOperation;
+    status: ClientOperationStatus;
+    /** Sent with every attempt so that the server applies the change once */
+    idempotencyKey: string;
+    attempts: number;
+    /** The error of the last attempt */
+    error?: ApiResponseError;
+};
+
+export type TodoClientOptions = {
+    /** Defaults to a new session of the shared api */
+    api?: TodoApi;
+    /** The socket the api publishes on. Defaults to the socket of the api */
+    socket?: FakeSocket;
+    /** Attempts of an operation before it fails. Defaults to 5 */
+    maxAttempts?: number;
+    /** Milliseconds before the first retry, doubled for each next one. Defaults to 200 */
+    retryDelay?: number;
+    /** Upper bound of the delay between two attempts. Defaults to 5000 */
+    maxRetryDelay?: number;
+    /** Milliseconds without answer after which an attempt is considered failed. Defaults to 5000 */
+    requestTimeout?: number;
+    /** Start offline: the changes are queued until setOffline(false) */
+    offline?: boolean;
+};
+
+type QueuedOperation = {
+    state: ClientOperation;
+    send: (options: RequestOptions) => Promise<ApiResponseWrapper<unknown>>;
+    resolve: (result: ApiResponseWrapper<unknown>) => void;
+    reject: (error: ApiResponseError) => void;
+};
+
+// Codes of the errors that may not happen again: a timeout, an overloaded or failing server
+const RETRYABLE_CODES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Calls the api for an application that may go offline: the changes are sent one at a time, in order, and retried
+ * with an exponential backoff. A local copy of the lists is kept up to date with the socket messages
+ */
+class TodoClient {
+    readonly api: TodoApi;
+    private readonly socket: FakeSocket;
+    private readonly scheduler: Scheduler;
+    private readonly maxAttempts: number;
+    private readonly retryDelay: number;
+    private readonly maxRetryDelay: number;
+    private readonly requestTimeout: number;
+    private offline: boolean;
+    private lists: TodoList[];
+    private loaded: boolean;
+    private operations: QueuedOperation[];
+    private nextOperationId: number;
+    private processing: boolean;
+    private refreshing: Promise<ApiResponseWrapper<boolean>> | undefined;
+    // Messages received while the lists are reloaded, applied on top of the reloaded lists
+    private bufferedMessages: RawMessage[] | undefined;
+    private listeners: (() => void)[];
+    private readonly onMessage: SocketClient;
+
+    constructor(options: TodoClientOptions = {}) {
+        this.api = options.api ?? todoApi.session();
+        this.socket = options.socket ?? this.api.socket;
+        this.scheduler = this.api.scheduler;
+        this.maxAttempts = options.maxAttempts ?? 5;
+        this.retryDelay = options.retryDelay ?? 200;
+        this.maxRetryDelay = options.maxRetryDelay ?? 5000;
+        this.requestTimeout = options.requestTimeout ?? 5000;
+        this.offline = options.offline ?? false;
+        this.lists = [];
+        this.loaded = false;
+        this.operations = [];
+        this.nextOperationId = 0;
+        this.processing = false;
+        this.refreshing = undefined;
+        this.bufferedMessages = undefined;
+        this.listeners = [];
+        this.onMessage = (message) => this.receive(message);
+        const listenerOptions: ListenerOptions = { onGap: () => this.refresh() };
+        if (this.api.userId !== undefined) {
+            listenerOptions.userId = this.api.userId;
+        }
+        this.socket.addListener(this.onMessage, listenerOptions);
+        if (this.offline) {
+            this.socket.disconnect(this.onMessage);
+        } else {
+            this.refresh();
+        }
+    }
+
+    get isOffline(): boolean {
+        return this.offline;
+    }
+
+    /**
+     * Simulates the loss of the network. While offline, the changes are queued and the socket is disconnected.
+     * Going back online replays the missed messages and sends the queued changes
+     */
+    setOffline(offline: boolean) {
+        if (offline === this.offline) {
+            return;
+        }
+        this.offline = offline;
+        if (offline) {
+            this.socket.disconnect(this.onMessage);
+        } else {
+            this.socket.reconnect(this.onMessage);
+            if (!this.loaded) {
+                this.refresh();
+            }
+            void this.processQueue();
+        }
+        this.notify();
+    }
+
+    /**
+     * @returns A copy of the local lists, as known from the last reload and the socket messages received since
+     */
+    getLists(): TodoList[] {
+        return this.lists.map(copyTodoList);
+    }
+
+    /**
+     * @returns The changes that are queued, in progress or failed, in the order they were requested
+     */
+    getOperations(): ClientOperation[] {
+        return this.operations.map((operation) => {
+            return { ...operation.state };
+        });
+    }
+
+    /**
+     * @param listener Called each time the local lists or the operations change
+     * @returns A function removing the listener
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter((otherListener) => otherListener !== listener);
+        };
+    }
+
+    /**
+     * Forgets a failed operation
+     */
+    dismiss(operationId: string) {
+        this.operations = this.operations.filter(
+            (operation) => operation.state.id !== operationId || operation.state.status !== 'failed',
+        );
+        this.notify();
+    }
+
+    /**
+     * Reloads the local lists from the api. Called when the client starts, and when socket messages were missed
+     *
+     * @returns An ApiResponseWrapper containing true. An ApiResponseError if the lists could not be loaded
+     */
+    refresh(): Promise<ApiResponseWrapper<boolean>> {
+        if (!this.refreshing) {
+            this.refreshing = this.reload().finally(() => {
+                this.refreshing = undefined;
+            });
+        }
+        return this.refreshing;
+    }
+
+    createList(name: string): Promise<ApiResponseWrapper<string>> {
+        return this.enqueue('createListWithId', (options) => this.api.createListWithId(name, options));
+    }
+
+    deleteList(listId: string): Promise<ApiResponseWrapper<boolean>> {
+        return this.enqueue('deleteListById', (options) => this.api.deleteListById(listId, options));
+    }
+
+    renameList(listId: string, name: string): Promise<ApiResponseWrapper<boolean>> {
+        return this.enqueue('renameListById', (options) => this.api.renameListById(listId, name, options));
+    }
+
+    moveList(listId: string, destIndex: number): Promise<ApiResponseWrapper<boolean>> {
+        return this.enqueue('moveListById', (options) => this.api.moveListById(listId, destIndex, options));
+    }
+
+    addTodo(listId: string, item: TodoInput): Promise<ApiResponseWrapper<string>> {
+        return this.enqueue('addTodoById', (options) => this.api.addTodoById(listId, item, options));
+    }
+
+    removeTodo(listId: string, todoId: string): Promise<ApiResponseWrapper<boolean>> {
+        return this.enqueue('removeTodoById', (options) => this.api.removeTodoById(listId, todoId, options));
+    }
+
+    moveTodo(listId: string, todoId: string, destIndex: number): Promise<ApiResponseWrapper<boolean>> {
+        return this.enqueue('moveTodoById', (options) => this.api.moveTodoById(listId, todoId, destIndex, options));
+    }
+
+    moveTodoToList(
+        sourceListId: string,
+        todoId: string,
+        destListId: string,
+        destIndex: number,
+    ): Promise<ApiResponseWrapper<boolean>> {
+        return this.enqueue('moveTodoToListById', (options) =>
+            this.api.moveTodoToListById(sourceListId, todoId, destListId, destIndex, options),
+        );
+    }
+
+    editTodo(listId: string, todoId: string, newValue: TodoPatch): Promise<ApiResponseWrapper<boolean>> {
+        return this.enqueue('editTodoById', (options) => this.api.editTodoById(listId, todoId, newValue, options));
+    }
+
+    /**
+     * Stops listening to the socket. Queued operations are not sent anymore
+     */
+    close() {
+        this.offline = true;
+        this.socket.removeListener(this.onMessage);
+    }
+
+    private notify() {
+        this.listeners.forEach((listener) => listener());
+    }
+
+    /**
+     * Queues a change
+     *
+     * @returns A promise resolved with the response of the api, or rejected once the change failed for good
+     */
+    private enqueue<T>(
+        operation: ApiOperation,
+        send: (options: RequestOptions) => Promise<ApiResponseWrapper<T>>,
+    ): Promise<ApiResponseWrapper<T>> {
+        return new Promise((resolve, reject) => {
+            const id = `${this.api.clientId ?? 'client'}-op-${this.nextOperationId++}`;
+            this.operations.push({
+                state: {
+                    id,
+                    operation,
+                    status: 'queued',
+                    // Unique across the clients sharing a session, and across reloads of the application
+                    idempotencyKey: `${id}-${this.api.random().toString(36).slice(2, 10)}`,
+                    attempts: 0,
+                },
+                send,
+                resolve: resolve as (result: ApiResponseWrapper<unknown>) => void,
+                reject,
+            });
+            this.notify();
+            void this.processQueue();
+        });
+    }
+
+    /**
+     * Sends the queued operations one at a time, so that the server applies them in order
+     */
+    private async processQueue() {
+        if (this.processing) {
+            return;
+        }
+        this.processing = true;
+        try {
+            let next = this.nextQueued();
+            while (!this.offline && next) {
+                const operation = next;
+                await this.run(operation).catch(() => {
+                    // A listener throwing must not leave the operation pending forever
+                    const error = buildErrorResponse(500, 'internal error');
+                    operation.state.status = 'failed';
+                    operation.state.error = error;
+                    operation.reject(error);
+                });
+                next = this.nextQueued();
+            }
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    private nextQueued(): QueuedOperation | undefined {
+        return this.operations.find((operation) => operation.state.status === 'queued');
+    }
+
+    private async run(operation: QueuedOperation) {
+        const { state } = operation;
+        for (;;) {
+            state.status = 'pending';
+            state.attempts++;
+            this.notify();
+            const result = await this.attempt(() => operation.send({ idempotencyKey: state.idempotencyKey }));
+            if (!('error' in result)) {
+                this.operations = this.operations.filter((otherOperation) => otherOperation !== operation);
+                this.notify();
+                operation.resolve(result);
+                return;
+            }
+            state.error = result;
+            if (!this.canRetry(result, state.attempts)) {
+                state.status = 'failed';
+                this.notify();
+                operation.reject(result);
+                return;
+            }
+            state.status = 'retrying';
+            this.notify();
+            await this.wait(this.backoffDelay(state.attempts));
+            if (this.offline) {
+                // Sent again, with the same key, once back online
+                state.status = 'queued';
+                this.notify();
+                return;
+            }
+        }
+    }
+
+    private async reload(): Promise<ApiResponseWrapper<boolean>> {
+        this.bufferedMessages = [];
+        let attempts = 0;
+        let result: ApiResponseWrapper<TodoList[]>;
+        do {
+            if (attempts > 0) {
+                await this.wait(this.backoffDelay(attempts));
+            }
+            attempts++;
+            result = await this.attempt(() => this.api.getTodoLists());
+        } while ('error' in result && this.canRetry(result, attempts) && !this.offline);
+        const bufferedMessages = this.bufferedMessages;
+        this.bufferedMessages = undefined;
+        if (!('error' in result)) {
+            this.lists = result.response;
+            this.loaded = true;
+        }
+        // The messages received meanwhile may or may not be included in the reloaded lists: applying them is harmless
+        bufferedMessages.forEach((message) => this.applyMessage(message));
+        this.notify();
+        return 'error' in result ? result : { response: true };
+    }
+
+    /**
+     * Sends a request, turning a rejection or the lack of answer into an ApiResponseError
+     */
+    private attempt<T>(send: () => Promise<ApiResponseWrapper<T>>): Promise<ApiResponseWrapper<T>> {
+        return new Promise((resolve) => {
+            const timer = this.scheduler.setTimeout(
+                () => resolve(buildErrorResponse(408, 'request timeout')),
+                this.requestTimeout,
+            );
+            send().then(
+                (result) => {
+                    this.scheduler.clearTimeout(timer);
+                    resolve(result);
+                },
+                (error: unknown) => {
+                    this.scheduler.clearTimeout(timer);
+                    resolve(isApiResponseError(error) ? error : buildErrorResponse(500, 'internal error'));
+                },
+            );
+        });
+    }
+
+    private canRetry(error: ApiResponseError, attempts: number): boolean {
+        return RETRYABLE_CODES.includes(error.error.code) && attempts < this.maxAttempts;
+    }
+
+    private backoffDelay(attempts: number): number {
+        return Math.min(this.retryDelay * 2 ** (attempts - 1), this.maxRetryDelay);
+    }
+
+    private wait(delay: number): Promise<void> {
+        return new Promise((resolve) => {
+            this.scheduler.setTimeout(resolve, delay);
+        });
+    }
+
+    private receive(message: RawMessage) {
+        if (this.bufferedMessages) {
+            this.bufferedMessages.push(message);
+            return;
+        }
+        this.applyMessage(message);
+        this.notify();
+    }
+
+    private applyMessage(message: RawMessage) {
+        this.lists = applySocketMessage(this.lists, message, this.api.userId);
+    }
+}
+
+export function createTodoClient(options: TodoClientOptions = {}): TodoClient {
+    return new TodoClient(options);
+}
+
+export type { TodoClient };
@@ -0,0 +1,187 @@
+import { Todo, TodoField, TodoInput, TodoPatch, TodoRecurrence } from './todo-api';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export function toTimestamp(time: number): string {
+    return new Date(time).toISOString();
+}
+
+function isDateOnly(date: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}$/.test(date);
+}
+
+function dueTimeOf(dueDate: string): number {
+    const time = Date.parse(dueDate);
+    return isDateOnly(dueDate) ? time + DAY : time;
+}
+
+/**
+ * @returns The time from which a todo is overdue, in milliseconds: the end of the day for a due date without time.
+ * Undefined for a todo without due date
+ */
+export function getDueTime(todo: Todo): number | undefined {
+    return todo.dueDate === undefined ? undefined : dueTimeOf(todo.dueDate);
+}
+
+function addRecurrence(time: number, recurrence: TodoRecurrence): number {
+    const date = new Date(time);
+    const interval = recurrence.interval ?? 1;
+    if (recurrence.frequency === 'monthly') {
+        // The day is kept, or becomes the last one of a shorter month, e.g. from January 31 to February 28
+        const day = date.getUTCDate();
+        date.setUTCDate(1);
+        date.setUTCMonth(date.getUTCMonth() + interval);
+        const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+        date.setUTCDate(Math.min(day, lastDay));
+    } else {
+        date.setUTCDate(date.getUTCDate() + interval * (recurrence.frequency === 'weekly' ? 7 : 1));
+    }
+    return date.getTime();
+}
+
+function formatLike(time: number, date: string): string {
+    const timestamp = toTimestamp(time);
+    return isDateOnly(date) ? timestamp.slice(0, 10) : timestamp;
+}
+
+/**
+ * Builds a new todo from what the client sent, keeping only the known fields
+ */
+export function buildTodo(input: TodoInput, id: string, now: string): Todo {
+    const todo: Todo = {
+        description: input.description,
+        done: input.done,
+        id,
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+    };
+    if (input.done) {
+        todo.completedAt = now;
+    }
+    if (input.dueDate !== undefined) {
+        todo.dueDate = input.dueDate;
+    }
+    if (input.priority !== undefined) {
+        todo.priority = input.priority;
+    }
+    if (input.tags !== undefined) {
+        todo.tags = [...input.tags];
+    }
+    if (input.notes !== undefined) {
+        todo.notes = input.notes;
+    }
+    if (input.assigneeId !== undefined) {
+        todo.assigneeId = input.assigneeId;
+    }
+    if (input.remindAt !== undefined) {
+        todo.remindAt = input.remindAt;
+    }
+    if (input.recurrence !== undefined) {
+        todo.recurrence = { ...input.recurrence };
+    }
+    return todo;
+}
+
+/**
+ * Builds the next occurrence of a recurring todo completed at now. It is due one interval after the todo, or after the
+ * day of now for a todo without due date, skipping the occurrences that would already be overdue. Its reminder is
+ * moved by as many intervals
+ *
+ * @param now Time of the completion, in milliseconds
+ * @returns Undefined if the todo does not recur
+ */
+export function buildNextOccurrence(todo: Todo, id: string, now: number): Todo | undefined {
+    const { recurrence } = todo;
+    if (!recurrence) {
+        return undefined;
+    }
+    const input: TodoInput = { description: todo.description, done: false, recurrence };
+    if (todo.priority !== undefined) {
+        input.priority = todo.priority;
+    }
+    if (todo.tags !== undefined) {
+        input.tags = todo.tags;
+    }
+    if (todo.notes !== undefined) {
+        input.notes = todo.notes;
+    }
+    if (todo.assigneeId !== undefined) {
+        input.assigneeId = todo.assigneeId;
+    }
+    const dueDate = todo.dueDate ?? toTimestamp(now).slice(0, 10);
+    let dueTime = Date.parse(dueDate);
+    let remindTime = todo.remindAt === undefined ? undefined : Date.parse(todo.remindAt);
+    do {
+        dueTime = addRecurrence(dueTime, recurrence);
+        remindTime = remindTime === undefined ? undefined : addRecurrence(remindTime, recurrence);
+    } while (dueTimeOf(formatLike(dueTime, dueDate)) <= now);
+    input.dueDate = formatLike(dueTime, dueDate);
+    if (remindTime !== undefined) {
+        input.remindAt = toTimestamp(remindTime);
+    }
+    return buildTodo(input, id, toTimestamp(now));
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Applies a partial update: absent fields are kept, null removes an optional field.
+ * The version and the timestamps are only changed when a field actually changes
+ *
+ * @returns The updated todo and the fields that changed
+ */
+export function applyTodoPatch(todo: Todo, patch: TodoPatch, now: string): { todo: Todo; changedFields: TodoField[] } {
+    const updatedTodo: Todo = { ...todo };
+    const changedFields: TodoField[] = [];
+    const setField = <K extends keyof TodoPatch>(field: K, value: TodoPatch[K]) => {
+        if (value === undefined || isSameValue(todo[field], value ?? undefined)) {
+            return;
+        }
+        if (value === null) {
+            delete updatedTodo[field];
+        } else if (Array.isArray(value)) {
+            Object.assign(updatedTodo, { [field]: [...value] });
+        } else {
+            Object.assign(updatedTodo, { [field]: typeof value === 'object' ? { ...value } : value });
+        }
+        changedFields.push(field);
+    };
+    setField('description', patch.description);
+    setField('done', patch.done);
+    setField('dueDate', patch.dueDate);
+    setField('priority', patch.priority);
+    setField('tags', patch.tags);
+    setField('notes', patch.notes);
+    setField('assigneeId', patch.assigneeId);
+    setField('remindAt', patch.remindAt);
+    setField('recurrence', patch.recurrence);
+    if (changedFields.includes('done')) {
+        if (updatedTodo.done) {
+            updatedTodo.completedAt = now;
+        } else {
+            delete updatedTodo.completedAt;
+        }
+        changedFields.push('completedAt');
+    }
+    if (changedFields.length > 0) {
+        updatedTodo.version = todo.version + 1;
+        updatedTodo.updatedAt = now;
+    }
+    return { todo: updatedTodo, changedFields };
+}
+
+/**
+ * Builds the patch that sets the fields back to their value in the todo, e.g. to revert an edit
+ */
+export function buildRevertPatch(todo: Todo, fields: TodoField[]): TodoPatch {
+    const patch: TodoPatch = {};
+    fields.forEach((field) => {
+        if (field !== 'completedAt') {
+            Object.assign(patch, { [field]: todo[field] ?? null });
+        }
+    });
+    return patch;
+}
@@ -0,0 +1,81 @@
+import { responseOf } from './test-helpers';
+import { Todo, TodoList } from './todo-api';
+import { queryTodos, TodoSortField } from './todo-query';
+
+const TIMESTAMP = '2024-05-01T10:00:00.000Z';
+
+function buildTodo(id: string, fields: Partial<Todo> = {}): Todo {
+    return { id, description: id, done: false, version: 1, createdAt: TIMESTAMP, updatedAt: TIMESTAMP, ...fields };
+}
+
+function buildList(ids: string[]): TodoList {
+    return { id: 'l1', name: 'List', version: 1, items: ids.map((id) => buildTodo(id)) };
+}
+
+describe('queryTodos', () => {
+    it('rejects an unknown sort field', () => {
+        const result = queryTodos([buildList(['t1'])], { sortBy: 'color' as TodoSortField });
+        expect(result).toMatchObject({ error: { code: 422, fields: [{ field: 'sortBy' }] } });
+    });
+
+    describe('pagination', () => {
+        function page(todoList: TodoList, cursor?: string): { ids: string[]; nextCursor: string | null } {
+            const result = queryTodos([todoList], { limit: 2, ...(cursor !== undefined && { cursor }) });
+            const { items, nextCursor } = responseOf(result);
+            return { ids: items.map((item) => item.id), nextCursor };
+        }
+
+        it('neither repeats nor skips todos added before the cursor', () => {
+            const todoList = buildList(['t1', 't2', 't3', 't4']);
+            const first = page(todoList);
+            todoList.items.unshift(buildTodo('t0'));
+            const second = page(todoList, first.nextCursor ?? undefined);
+            expect([...first.ids, ...second.ids]).toEqual(['t1', 't2', 't3', 't4']);
+        });
+
+        it('resumes after the last todo of the previous page once it is removed', () => {
+            const todoList = buildList(['t1', 't2', 't3', 't4']);
+            const first = page(todoList);
+            todoList.items.splice(1, 1);
+            expect(page(todoList, first.nextCursor ?? undefined).ids).toEqual(['t3', 't4']);
+        });
+
+        it('resumes after the last todo with the sort value it had', () => {
+            const todoList = buildList(['t1', 't2', 't3', 't4']);
+            todoList.items.forEach((todo, index) => (todo.dueDate = `2024-05-0${index + 1}`));
+            const query = { sortBy: 'dueDate', sortDirection: 'desc', limit: 2 } as const;
+            const first = responseOf(queryTodos([todoList], query));
+            const last = todoList.items.find((todo) => todo.id === 't3');
+            if (last) {
+                last.dueDate = '2024-05-09';
+            }
+            const second = responseOf(queryTodos([todoList], { ...query, cursor: first.nextCursor ?? '' }));
+            expect(second.items.map((item) => item.id)).toEqual(['t2', 't1']);
+        });
+
+        it('pages through the todos sorted by a description that is not Latin-1', () => {
+            const todoList = buildList(['t1', 't2', 't3']);
+            ['zzz', 'émoji 😀', '日本 a'].forEach((description, index) => {
+                const todo = todoList.items[index];
+                if (todo) {
+                    todo.description = description;
+                }
+            });
+            const query = { sortBy: 'description', limit: 2 } as const;
+            const first = responseOf(queryTodos([todoList], query));
+            const second = responseOf(queryTodos([todoList], { ...query, cursor: first.nextCursor ?? '' }));
+            const descriptions = [...first.items, ...second.items].map((item) => item.description);
+            expect(descriptions).toEqual(['zzz', 'émoji 😀', '日本 a']);
+            expect(second.nextCursor).toBeNull();
+        });
+
+        it('rejects a cursor returned for another sort', () => {
+            const { nextCursor } = page(buildList(['t1', 't2', 't3']));
+            const result = queryTodos([buildList(['t1', 't2', 't3'])], {
+                sortBy: 'description',
+                cursor: nextCursor ?? '',
+            });
+            expect(result).toMatchObject({ error: { code: 400 } });
+        });
+    });
+});
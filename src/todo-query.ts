@@ -0,0 +1,263 @@
+import { buildErrorResponse, buildValidationErrorResponse } from './errors';
+import { ApiResponseWrapper, Todo, TodoList, TodoPriority } from './todo-api';
+import { FieldError } from './validation';
+
+export const DEFAULT_QUERY_LIMIT = 50;
+export const MAX_QUERY_LIMIT = 500;
+
+export const TODO_SORT_FIELDS = ['position', 'description', 'dueDate', 'priority', 'createdAt', 'updatedAt'] as const;
+export type TodoSortField = typeof TODO_SORT_FIELDS[number];
+
+/**
+ * Criteria of queryTodos. All of them are optional and combined
+ */
+export type TodoQuery = {
+    /** Only the todos of this list */
+    listId?: string;
+    done?: boolean;
+    /** Only the todos having this tag */
+    tag?: string;
+    /** Only the todos assigned to this user */
+    assigneeId?: string;
+    /** Only the todos due at or after this ISO 8601 date */
+    dueFrom?: string;
+    /** Only the todos due at or before this ISO 8601 date */
+    dueTo?: string;
+    /** Case insensitive text searched in the description */
+    search?: string;
+    /** Defaults to position: the order of the lists, then of the items in each list */
+    sortBy?: TodoSortField;
+    /** Defaults to asc. Todos without a value for the sort field always come last */
+    sortDirection?: 'asc' | 'desc';
+    /** Size of a page. Defaults to DEFAULT_QUERY_LIMIT, at most MAX_QUERY_LIMIT */
+    limit?: number;
+    /**
+     * The nextCursor of the previous page, with the same criteria. The next page starts after the last todo of the
+     * previous one, so that no todo is skipped or repeated when todos are added or removed in between
+     */
+    cursor?: string;
+};
+
+export type TodoQueryItem = Todo & {
+    listId: string;
+};
+
+export type TodoPage = {
+    items: TodoQueryItem[];
+    /** Number of todos matching the criteria, in all the pages */
+    totalCount: number;
+    /** Cursor of the next page, null on the last one */
+    nextCursor: string | null;
+};
+
+type Candidate = {
+    item: TodoQueryItem;
+    position: number;
+};
+
+type SortValue = string | number | undefined;
+
+/**
+ * The sort key of the last todo of a page
+ */
+type Cursor = {
+    sortBy: TodoSortField;
+    direction: 1 | -1;
+    id: string;
+    /** null when the todo has no value for the sort field */
+    value: string | number | null;
+    position: number;
+};
+
+const PRIORITY_RANK: Record<TodoPriority, number> = { low: 0, medium: 1, high: 2 };
+
+function validateQuery(query: TodoQuery): FieldError[] {
+    const errors: FieldError[] = [];
+    if (query.limit !== undefined && (!Number.isInteger(query.limit) || query.limit < 1)) {
+        errors.push({ field: 'limit', message: 'must be a positive integer' });
+    }
+    if (query.dueFrom !== undefined && Number.isNaN(Date.parse(query.dueFrom))) {
+        errors.push({ field: 'dueFrom', message: 'must be an ISO 8601 date' });
+    }
+    if (query.dueTo !== undefined && Number.isNaN(Date.parse(query.dueTo))) {
+        errors.push({ field: 'dueTo', message: 'must be an ISO 8601 date' });
+    }
+    if (query.sortBy !== undefined && !(TODO_SORT_FIELDS as readonly unknown[]).includes(query.sortBy)) {
+        errors.push({ field: 'sortBy', message: `must be one of ${TODO_SORT_FIELDS.join(', ')}` });
+    }
+    return errors;
+}
+
+/**
+ * btoa only accepts Latin-1 characters: the JSON is encoded in UTF-8 first, e.g. for a description with an emoji
+ */
+function encodeCursor(cursor: Cursor): string {
+    const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+    return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''));
+}
+
+/**
+ * @returns The cursor, undefined if it is invalid or was returned for another sort
+ */
+function decodeCursor(encoded: string, sortBy: TodoSortField, direction: 1 | -1): Cursor | undefined {
+    let cursor: Partial<Cursor>;
+    try {
+        const bytes = Uint8Array.from(atob(encoded), (character) => character.charCodeAt(0));
+        cursor = JSON.parse(new TextDecoder().decode(bytes));
+    } catch (e) {
+        return undefined;
+    }
+    if (
+        typeof cursor !== 'object' ||
+        cursor === null ||
+        cursor.sortBy !== sortBy ||
+        cursor.direction !== direction ||
+        typeof cursor.id !== 'string' ||
+        (!['string', 'number'].includes(typeof cursor.value) && cursor.value !== null) ||
+        !Number.isInteger(cursor.position)
+    ) {
+        return undefined;
+    }
+    return cursor as Cursor;
+}
+
+function matches(todo: Todo, query: TodoQuery): boolean {
+    if (query.done !== undefined && todo.done !== query.done) {
+        return false;
+    }
+    if (query.tag !== undefined && !todo.tags?.includes(query.tag)) {
+        return false;
+    }
+    if (query.assigneeId !== undefined && todo.assigneeId !== query.assigneeId) {
+        return false;
+    }
+    if (query.dueFrom !== undefined || query.dueTo !== undefined) {
+        const dueTime = todo.dueDate === undefined ? NaN : Date.parse(todo.dueDate);
+        if (Number.isNaN(dueTime)) {
+            return false;
+        }
+        if (query.dueFrom !== undefined && dueTime < Date.parse(query.dueFrom)) {
+            return false;
+        }
+        if (query.dueTo !== undefined && dueTime > Date.parse(query.dueTo)) {
+            return false;
+        }
+    }
+    if (query.search && !todo.description.toLowerCase().includes(query.search.toLowerCase())) {
+        return false;
+    }
+    return true;
+}
+
+function sortValue(candidate: Candidate, sortBy: TodoSortField): SortValue {
+    const { item } = candidate;
+    switch (sortBy) {
+        case 'position':
+            return candidate.position;
+        case 'description':
+            return item.description.toLowerCase();
+        case 'dueDate':
+            return item.dueDate === undefined ? undefined : Date.parse(item.dueDate);
+        case 'priority':
+            return item.priority === undefined ? undefined : PRIORITY_RANK[item.priority];
+        case 'createdAt':
+            return Date.parse(item.createdAt);
+        case 'updatedAt':
+            return Date.parse(item.updatedAt);
+    }
+}
+
+function compareValues(valueA: SortValue, valueB: SortValue, direction: 1 | -1): number {
+    if (valueA === valueB) {
+        return 0;
+    }
+    if (valueA === undefined) {
+        return 1;
+    }
+    if (valueB === undefined) {
+        return -1;
+    }
+    return (valueA < valueB ? -1 : 1) * direction;
+}
+
+function compareCandidates(a: Candidate, b: Candidate, sortBy: TodoSortField, direction: 1 | -1): number {
+    // Ties keep the position so that pages are stable
+    return compareValues(sortValue(a, sortBy), sortValue(b, sortBy), direction) || a.position - b.position;
+}
+
+/**
+ * @returns The index of the first sorted candidate following the last todo of the previous page
+ */
+function findPageStart(candidates: Candidate[], cursor: Cursor): number {
+    const cursorValue = cursor.value ?? undefined;
+    const lastIndex = candidates.findIndex((candidate) => candidate.item.id === cursor.id);
+    const last = candidates[lastIndex];
+    if (last && (cursor.sortBy === 'position' || sortValue(last, cursor.sortBy) === cursorValue)) {
+        return lastIndex + 1;
+    }
+    // The todo was removed, or moved by a change of its sort value: the todos that followed it have shifted back
+    const start = candidates.findIndex((candidate) => {
+        const comparison = compareValues(sortValue(candidate, cursor.sortBy), cursorValue, cursor.direction);
+        return comparison > 0 || (comparison === 0 && candidate.position >= cursor.position);
+    });
+    return start === -1 ? candidates.length : start;
+}
+
+function toCursor(candidate: Candidate, sortBy: TodoSortField, direction: 1 | -1): Cursor {
+    return {
+        sortBy,
+        direction,
+        id: candidate.item.id,
+        value: sortValue(candidate, sortBy) ?? null,
+        position: candidate.position,
+    };
+}
+
+/**
+ * Filters, sorts and paginates the todos of the lists
+ *
+ * @returns An ApiResponseWrapper containing the requested page. An ApiResponseError if the query is invalid
+ */
+export function queryTodos(lists: TodoList[], query: TodoQuery): ApiResponseWrapper<TodoPage> {
+    const fields = validateQuery(query);
+    if (fields.length > 0) {
+        return buildValidationErrorResponse(fields);
+    }
+    const sortBy = query.sortBy ?? 'position';
+    const direction = query.sortDirection === 'desc' ? -1 : 1;
+    const cursor = query.cursor === undefined ? undefined : decodeCursor(query.cursor, sortBy, direction);
+    if (query.cursor !== undefined && !cursor) {
+        return buildErrorResponse(400, 'invalid cursor');
+    }
+    if (query.listId !== undefined && !lists.some((todoList) => todoList.id === query.listId)) {
+        return buildErrorResponse(404, 'could not find todolist');
+    }
+    const candidates: Candidate[] = [];
+    lists
+        .filter((todoList) => query.listId === undefined || todoList.id === query.listId)
+        .forEach((todoList) => {
+            todoList.items.forEach((todo) => {
+                if (matches(todo, query)) {
+                    // Copy the todo so that the caller can not modify the lists
+                    const item: TodoQueryItem = { ...todo, listId: todoList.id };
+                    if (todo.tags) {
+                        item.tags = [...todo.tags];
+                    }
+                    candidates.push({ item, position: candidates.length });
+                }
+            });
+        });
+    candidates.sort((a, b) => compareCandidates(a, b, sortBy, direction));
+    const limit = Math.min(query.limit ?? DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT);
+    const start = cursor ? findPageStart(candidates, cursor) : 0;
+    const page = candidates.slice(start, start + limit);
+    const last = page[page.length - 1];
+    return {
+        response: {
+            items: page.map((candidate) => candidate.item),
+            totalCount: candidates.length,
+            nextCursor:
+                last && start + limit < candidates.length ? encodeCursor(toCursor(last, sortBy, direction)) : null,
+        },
+    };
+}
@@ -0,0 +1,185 @@
+import { RawMessage } from './fake-socket';
+import { Todo, TodoList } from './todo-api';
+import { applySocketMessage } from './todo-reducer';
+
+const TIMESTAMP = '2024-05-01T10:00:00.000Z';
+
+function buildTodo(id: string, description: string, version = 1): Todo {
+    return { id, description, done: false, version, createdAt: TIMESTAMP, updatedAt: TIMESTAMP };
+}
+
+function buildState(): TodoList[] {
+    return [
+        { id: 'l1', name: 'Groceries', version: 1, items: [buildTodo('t1', 'Milk'), buildTodo('t2', 'Bread')] },
+        { id: 'l2', name: 'Chores', version: 1, items: [] },
+    ];
+}
+
+function itemIds(state: TodoList[], listId: string): string[] | undefined {
+    return state.find((todoList) => todoList.id === listId)?.items.map((todo) => todo.id);
+}
+
+describe('applySocketMessage', () => {
+    it('adds a todo at the end of its list, once', () => {
+        const state = buildState();
+        const message: RawMessage = {
+            type: 'addToDo',
+            message: { listIndex: 0, listId: 'l1', listVersion: 2, item: buildTodo('t3', 'Eggs') },
+        };
+        const next = applySocketMessage(state, message);
+        expect(itemIds(next, 'l1')).toEqual(['t1', 't2', 't3']);
+        expect(next[0]?.version).toBe(2);
+        expect(applySocketMessage(next, message)).toBe(next);
+    });
+
+    it('does not modify the state, and keeps the lists that do not change', () => {
+        const state = buildState();
+        const snapshot = JSON.stringify(state);
+        const next = applySocketMessage(state, {
+            type: 'removeTodo',
+            message: { listIndex: 0, listId: 'l1', itemIndex: 0, itemId: 't1', listVersion: 2 },
+        });
+        expect(JSON.stringify(state)).toBe(snapshot);
+        expect(itemIds(next, 'l1')).toEqual(['t2']);
+        expect(next[0]).not.toBe(state[0]);
+        expect(next[1]).toBe(state[1]);
+    });
+
+    it('returns the state itself when the message is about an unknown list or todo', () => {
+        const state = buildState();
+        expect(
+            applySocketMessage(state, {
+                type: 'renameList',
+                message: { listIndex: 5, listId: 'unknown', name: 'Other', listVersion: 2 },
+            }),
+        ).toBe(state);
+        expect(
+            applySocketMessage(state, {
+                type: 'moveTodo',
+                message: {
+                    listIndex: 0,
+                    listId: 'l1',
+                    itemId: 'unknown',
+                    sourceIndex: 0,
+                    destIndex: 1,
+                    listVersion: 2,
+                },
+            }),
+        ).toBe(state);
+    });
+
+    it('moves a todo to another list, once', () => {
+        const state = buildState();
+        const message: RawMessage = {
+            type: 'moveTodoToList',
+            message: {
+                itemId: 't1',
+                item: buildTodo('t1', 'Milk'),
+                sourceListIndex: 0,
+                sourceListId: 'l1',
+                sourceIndex: 0,
+                sourceListVersion: 2,
+                destListIndex: 1,
+                destListId: 'l2',
+                destIndex: 0,
+                destListVersion: 2,
+            },
+        };
+        const next = applySocketMessage(state, message);
+        expect(itemIds(next, 'l1')).toEqual(['t2']);
+        expect(itemIds(next, 'l2')).toEqual(['t1']);
+        expect(applySocketMessage(next, message)).toEqual(next);
+    });
+
+    it('does not overwrite a todo with an older edit delivered late', () => {
+        const state = applySocketMessage(buildState(), {
+            type: 'editTodo',
+            message: {
+                listIndex: 0,
+                listId: 'l1',
+                itemIndex: 0,
+                itemId: 't1',
+                newValue: buildTodo('t1', 'Oat milk', 3),
+                changedFields: ['description'],
+            },
+        });
+        const lateEdit: RawMessage = {
+            type: 'editTodo',
+            message: {
+                listIndex: 0,
+                listId: 'l1',
+                itemIndex: 0,
+                itemId: 't1',
+                newValue: buildTodo('t1', 'Soy milk', 2),
+                changedFields: ['description'],
+            },
+        };
+        expect(state[0]?.items[0]?.description).toBe('Oat milk');
+        expect(applySocketMessage(state, lateEdit)).toBe(state);
+    });
+
+    it('moves and restores the lists at their index', () => {
+        const state = buildState();
+        const moved = applySocketMessage(state, {
+            type: 'moveList',
+            message: { listId: 'l2', sourceIndex: 1, destIndex: 0 },
+        });
+        expect(moved.map((todoList) => todoList.id)).toEqual(['l2', 'l1']);
+        const deleted = applySocketMessage(moved, { type: 'deleteList', message: { index: 0, listId: 'l2' } });
+        expect(deleted.map((todoList) => todoList.id)).toEqual(['l1']);
+        const restored = applySocketMessage(deleted, {
+            type: 'restoreList',
+            message: { index: 0, list: { id: 'l2', name: 'Chores', version: 1, items: [] } },
+        });
+        expect(restored.map((todoList) => todoList.id)).toEqual(['l2', 'l1']);
+    });
+
+    it('applies the changes of a batch in order', () => {
+        const next = applySocketMessage(buildState(), {
+            type: 'batch',
+            message: {
+                changes: [
+                    {
+                        type: 'addToDo',
+                        message: { listIndex: 1, listId: 'l2', listVersion: 2, item: buildTodo('t3', 'Vacuum') },
+                    },
+                    {
+                        type: 'moveTodo',
+                        message: {
+                            listIndex: 0,
+                            listId: 'l1',
+                            itemId: 't2',
+                            sourceIndex: 1,
+                            destIndex: 0,
+                            listVersion: 2,
+                        },
+                    },
+                ],
+            },
+        });
+        expect(itemIds(next, 'l1')).toEqual(['t2', 't1']);
+        expect(itemIds(next, 'l2')).toEqual(['t3']);
+    });
+
+    it('drops a list when the user loses access to it', () => {
+        const state: TodoList[] = [
+            {
+                id: 'l1',
+                name: 'Shared',
+                version: 1,
+                ownerId: 'ann',
+                members: [{ userId: 'bob', role: 'read' }],
+                items: [],
+            },
+        ];
+        const unshared: RawMessage = {
+            type: 'listMembers',
+            message: {
+                listIndex: 0,
+                list: { id: 'l1', name: 'Shared', version: 2, ownerId: 'ann', members: [], items: [] },
+            },
+        };
+        expect(applySocketMessage(state, unshared, 'bob')).toEqual([]);
+        expect(applySocketMessage(state, unshared, 'ann')[0]?.members).toEqual([]);
+    });
+});
@@ -0,0 +1,163 @@
+import { RawMessage } from './fake-socket';
+import { Todo, TodoList } from './todo-api';
+
+/**
+ * @returns A copy of the list, its todos and its members, that can be changed without changing the list
+ */
+export function copyTodoList(todoList: TodoList): TodoList {
+    const copy: TodoList = {
+        ...todoList,
+        items: todoList.items.map((todo) => {
+            return { ...todo };
+        }),
+    };
+    if (todoList.members) {
+        copy.members = todoList.members.map((member) => {
+            return { ...member };
+        });
+    }
+    return copy;
+}
+
+function moveItem<T>(items: T[], item: T, destIndex: number): T[] {
+    const movedItems = items.filter((otherItem) => otherItem !== item);
+    movedItems.splice(destIndex, 0, item);
+    return movedItems;
+}
+
+function hasItem(todoList: TodoList, itemId: string): boolean {
+    return todoList.items.some((todo) => todo.id === itemId);
+}
+
+/**
+ * Replaces a list of the state by its updated copy
+ *
+ * @param update Returns the updated copy of the list, undefined when the list does not change
+ */
+function updateList(
+    state: TodoList[],
+    listId: string,
+    update: (todoList: TodoList) => TodoList | undefined,
+): TodoList[] {
+    const todoList = state.find((currentList) => currentList.id === listId);
+    const updatedList = todoList && update(todoList);
+    if (!updatedList) {
+        return state;
+    }
+    return state.map((currentList) => (currentList === todoList ? updatedList : currentList));
+}
+
+function insertItem(todoList: TodoList, item: Todo, itemIndex: number, listVersion: number): TodoList | undefined {
+    if (hasItem(todoList, item.id)) {
+        return undefined;
+    }
+    const items = [...todoList.items];
+    items.splice(itemIndex, 0, { ...item });
+    return { ...todoList, items, version: listVersion };
+}
+
+function removeItem(todoList: TodoList, itemId: string, listVersion: number): TodoList | undefined {
+    if (!hasItem(todoList, itemId)) {
+        return undefined;
+    }
+    return { ...todoList, items: todoList.items.filter((todo) => todo.id !== itemId), version: listVersion };
+}
+
+/**
+ * Applies a socket message to a copy of the lists, e.g. in the reducer of a UI store. The lists and todos are found by
+ * id, and a message applied twice has no more effect than once, so that duplicated messages are harmless.
+ * The state is not modified: the lists and todos that change are replaced, the others are kept as they are, so that
+ * they can be compared by reference
+ *
+ * @param userId The user the messages are received for, see ListenerOptions: a list is dropped when they lose access
+ * to it
+ * @returns The new lists, the given state itself when the message changes nothing
+ */
+export function applySocketMessage(state: TodoList[], message: RawMessage, userId?: string): TodoList[] {
+    const findList = (listId: string) => state.find((todoList) => todoList.id === listId);
+    switch (message.type) {
+        case 'batch':
+            return message.message.changes.reduce((lists, change) => applySocketMessage(lists, change, userId), state);
+        case 'createList':
+            return findList(message.message.id) ? state : [...state, copyTodoList(message.message)];
+        case 'restoreList': {
+            const { index, list } = message.message;
+            return findList(list.id) ? state : [...state.slice(0, index), copyTodoList(list), ...state.slice(index)];
+        }
+        case 'listMembers': {
+            const { list, listIndex } = message.message;
+            const isMember = list.members?.some((member) => member.userId === userId);
+            if (userId !== undefined && list.ownerId !== undefined && list.ownerId !== userId && !isMember) {
+                return findList(list.id) ? state.filter((todoList) => todoList.id !== list.id) : state;
+            }
+            if (!findList(list.id)) {
+                return [...state.slice(0, listIndex), copyTodoList(list), ...state.slice(listIndex)];
+            }
+            return updateList(state, list.id, (todoList) => {
+                return { ...todoList, members: copyTodoList(list).members ?? [], version: list.version };
+            });
+        }
+        case 'deleteList':
+            return findList(message.message.listId)
+                ? state.filter((todoList) => todoList.id !== message.message.listId)
+                : state;
+        case 'renameList':
+            return updateList(state, message.message.listId, (todoList) => {
+                return { ...todoList, name: message.message.name, version: message.message.listVersion };
+            });
+        case 'moveList': {
+            const todoList = findList(message.message.listId);
+            return todoList ? moveItem(state, todoList, message.message.destIndex) : state;
+        }
+        case 'addToDo':
+            return updateList(state, message.message.listId, (todoList) => {
+                const { item, listVersion } = message.message;
+                return insertItem(todoList, item, todoList.items.length, listVersion);
+            });
+        case 'restoreTodo':
+            return updateList(state, message.message.listId, (todoList) => {
+                const { item, itemIndex, listVersion } = message.message;
+                return insertItem(todoList, item, itemIndex, listVersion);
+            });
+        case 'removeTodo':
+            return updateList(state, message.message.listId, (todoList) => {
+                return removeItem(todoList, message.message.itemId, message.message.listVersion);
+            });
+        case 'moveTodo':
+            return updateList(state, message.message.listId, (todoList) => {
+                const todo = todoList.items.find((item) => item.id === message.message.itemId);
+                if (!todo) {
+                    return undefined;
+                }
+                const items = moveItem(todoList.items, todo, message.message.destIndex);
+                return { ...todoList, items, version: message.message.listVersion };
+            });
+        case 'moveTodoToList': {
+            const { itemId, item, sourceListId, sourceListVersion, destListId, destIndex, destListVersion } =
+                message.message;
+            const lists = updateList(state, sourceListId, (todoList) => {
+                return removeItem(todoList, itemId, sourceListVersion);
+            });
+            return updateList(lists, destListId, (todoList) => {
+                return insertItem(todoList, item, destIndex, destListVersion);
+            });
+        }
+        case 'editTodo':
+            return updateList(state, message.message.listId, (todoList) => {
+                const { itemId, newValue } = message.message;
+                const todo = todoList.items.find((item) => item.id === itemId);
+                // A message delivered late must not overwrite a more recent edit
+                if (!todo || todo.version >= newValue.version) {
+                    return undefined;
+                }
+                return {
+                    ...todoList,
+                    items: todoList.items.map((item) => (item === todo ? { ...newValue } : item)),
+                };
+            });
+        case 'reminder':
+        case 'overdue':
+            // Notifications: the lists do not change
+            return state;
+    }
+}
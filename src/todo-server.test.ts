@@ -0,0 +1,187 @@
+import { createMemoryStorage } from './storage';
+import { responseOf } from './test-helpers';
+import { ApiResponseWrapper, TodoList } from './todo-api';
+import { createTodoServer, TodoServer } from './todo-server';
+
+type HttpResult = {
+    status: number;
+    contentType: string | null;
+    body: string;
+};
+
+type SendOptions = {
+    /** Sent as JSON */
+    body?: unknown;
+    /** Sent as is, e.g. for an import */
+    text?: string;
+    headers?: Record<string, string>;
+};
+
+describe('TodoServer', () => {
+    let server: TodoServer;
+    let url: string;
+
+    async function send(method: string, path: string, init: SendOptions = {}): Promise<HttpResult> {
+        const body = init.text ?? (init.body === undefined ? undefined : JSON.stringify(init.body));
+        const response = await fetch(`${url}${path}`, {
+            method,
+            headers: init.headers ?? {},
+            ...(body !== undefined && { body }),
+        });
+        return {
+            status: response.status,
+            contentType: response.headers.get('content-type'),
+            body: await response.text(),
+        };
+    }
+
+    function resultOf<T>(result: HttpResult): ApiResponseWrapper<T> {
+        return JSON.parse(result.body) as ApiResponseWrapper<T>;
+    }
+
+    async function createList(name: string, headers: Record<string, string> = {}): Promise<string> {
+        const created = await send('POST', '/lists', { body: { name }, headers });
+        expect(created.status).toBe(201);
+        return responseOf(resultOf<string>(created));
+    }
+
+    async function listNames(headers: Record<string, string> = {}): Promise<string[]> {
+        const lists = responseOf(resultOf<TodoList[]>(await send('GET', '/lists', { headers })));
+        return lists.map((todoList) => todoList.name);
+    }
+
+    beforeEach(async () => {
+        server = createTodoServer({
+            port: 0,
+            api: {
+                storage: createMemoryStorage(),
+                initialData: [],
+                users: [
+                    { id: 'ann', name: 'Ann' },
+                    { id: 'bob', name: 'Bob' },
+                ],
+                reminders: false,
+            },
+        });
+        url = await server.listen();
+    });
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    describe('status codes', () => {
+        it('answers a created list with a 201, and the list with a 200', async () => {
+            const listId = await createList('Groceries');
+            const read = await send('GET', `/lists/${listId}`);
+            expect(read.status).toBe(200);
+            expect(read.contentType).toBe('application/json; charset=utf-8');
+            expect(responseOf(resultOf<TodoList>(read))).toMatchObject({ id: listId, name: 'Groceries', items: [] });
+        });
+
+        it('answers a 404 for an unknown route, list or todo', async () => {
+            const listId = await createList('Groceries');
+            expect((await send('GET', '/unknown')).status).toBe(404);
+            expect((await send('GET', '/lists/unknown')).status).toBe(404);
+            expect((await send('PATCH', '/lists/unknown', { body: { name: 'Shopping' } })).status).toBe(404);
+            expect((await send('DELETE', `/lists/${listId}/todos/unknown`)).status).toBe(404);
+            expect((await send('POST', '/trash/todos/unknown/restore')).status).toBe(404);
+        });
+
+        it('answers a 422 naming the invalid fields', async () => {
+            const listId = await createList('Groceries');
+            const added = await send('POST', `/lists/${listId}/todos`, { body: { description: 5, done: false } });
+            expect(added.status).toBe(422);
+            expect(resultOf(added)).toMatchObject({ error: { fields: [{ field: 'description' }] } });
+            const moved = await send('PATCH', `/lists/${listId}`, { body: { index: 'first' } });
+            expect(resultOf(moved)).toMatchObject({ error: { code: 422, fields: [{ field: 'index' }] } });
+        });
+
+        it('answers a 400 for a body that is not json, and a 409 for a stale If-Match', async () => {
+            const listId = await createList('Groceries');
+            expect((await send('POST', '/lists', { text: '{' })).status).toBe(400);
+            const renamed = await send('PATCH', `/lists/${listId}`, {
+                body: { name: 'Shopping' },
+                headers: { 'If-Match': '"7"' },
+            });
+            expect(renamed.status).toBe(409);
+            expect(await listNames()).toEqual(['Groceries']);
+        });
+    });
+
+    describe('users and sessions', () => {
+        it('acts for the user of X-User-Id, and answers a 401 for an unknown user', async () => {
+            const listId = await createList('Diary', { 'X-User-Id': 'ann' });
+            expect(await listNames({ 'X-User-Id': 'bob' })).toEqual([]);
+            expect((await send('GET', `/lists/${listId}`, { headers: { 'X-User-Id': 'bob' } })).status).toBe(403);
+            expect((await send('GET', '/lists', { headers: { 'X-User-Id': 'eve' } })).status).toBe(401);
+        });
+
+        it('keeps a single session for a user without X-Client-Id', async () => {
+            const headers = { 'X-User-Id': 'ann' };
+            await createList('Diary', headers);
+            expect((await send('POST', '/undo', { headers })).status).toBe(200);
+            expect(await listNames(headers)).toEqual([]);
+        });
+
+        it('keeps the sessions of X-Client-Id apart', async () => {
+            await createList('Groceries', { 'X-Client-Id': 'tab-1' });
+            expect((await send('POST', '/undo', { headers: { 'X-Client-Id': 'tab-2' } })).status).toBe(400);
+            expect((await send('POST', '/undo', { headers: { 'X-Client-Id': 'tab-1' } })).status).toBe(200);
+            expect(await listNames()).toEqual([]);
+        });
+    });
+
+    describe('idempotency', () => {
+        it('applies a request sent again with the same Idempotency-Key once', async () => {
+            const headers = { 'X-User-Id': 'ann', 'Idempotency-Key': 'create-groceries' };
+            const first = await createList('Groceries', headers);
+            const second = await createList('Groceries', headers);
+            expect(second).toBe(first);
+            expect(await listNames(headers)).toEqual(['Groceries']);
+        });
+    });
+
+    describe('undo and redo', () => {
+        it('reverts a change, then applies it again', async () => {
+            const headers = { 'X-Client-Id': 'tab' };
+            const listId = await createList('Groceries', headers);
+            await send('POST', `/lists/${listId}/todos`, { body: { description: 'Milk', done: false }, headers });
+            const descriptions = async () => {
+                const todoList = responseOf(resultOf<TodoList>(await send('GET', `/lists/${listId}`)));
+                return todoList.items.map((todo) => todo.description);
+            };
+            expect(resultOf(await send('POST', '/undo', { headers }))).toEqual({ response: true });
+            expect(await descriptions()).toEqual([]);
+            expect(resultOf(await send('POST', '/redo', { headers }))).toEqual({ response: true });
+            expect(await descriptions()).toEqual(['Milk']);
+            expect((await send('POST', '/redo', { headers })).status).toBe(400);
+        });
+    });
+
+    describe('import and export', () => {
+        it('exports with the content type of the format', async () => {
+            await createList('Groceries');
+            const exported = await send('GET', '/export?format=markdown');
+            expect(exported.status).toBe(200);
+            expect(exported.contentType).toBe('text/markdown; charset=utf-8');
+            expect(exported.body).toBe('# Groceries\n');
+            expect((await send('GET', '/export?format=toString')).status).toBe(400);
+        });
+
+        it('imports in the given mode', async () => {
+            await createList('Groceries');
+            const imported = await send('POST', '/import?format=markdown&mode=replace', {
+                text: '# Chores\n- [ ] Mow\n',
+            });
+            expect(resultOf(imported)).toEqual({ response: { listCount: 1, todoCount: 1 } });
+            expect(await listNames()).toEqual(['Chores']);
+        });
+
+        it('answers a 422 naming the mode when it is unknown', async () => {
+            const imported = await send('POST', '/import?format=markdown&mode=overwrite', { text: '# Chores\n' });
+            expect(resultOf(imported)).toMatchObject({ error: { code: 422, fields: [{ field: 'mode' }] } });
+            expect(await listNames()).toEqual([]);
+        });
+    });
+});
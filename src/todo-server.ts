@@ -0,0 +1,541 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { Duplex } from 'stream';
+import { buildErrorResponse, buildValidationErrorResponse, isApiResponseError } from './errors';
+import { createFakeSocket, FakeSocket, ListenerOptions, SocketClient } from './fake-socket';
+import { DataFormat } from './import-export';
+import { createFileStorage } from './file-storage';
+import {
+    ApiResponseError,
+    ApiResponseWrapper,
+    BatchOperation,
+    createTodoApi,
+    ListMember,
+    RequestOptions,
+    TodoApi,
+    TodoApiOptions,
+    TodoInput,
+    TodoPatch,
+} from './todo-api';
+import { TodoQuery, TodoSortField } from './todo-query';
+import { acceptWebSocket, WebSocketConnection } from './web-socket';
+
+export type TodoServerOptions = {
+    /** Defaults to 3000. 0 picks a free port, see the url returned by listen */
+    port?: number;
+    /** Defaults to 127.0.0.1, so that the server is only reachable from this machine */
+    host?: string;
+    /** JSON file the lists are persisted in, so that they survive a restart. Defaults to jamespot-todo.json */
+    dataFile?: string;
+    /**
+     * Options of the api. The latency defaults to 0, the storage to the data file, and the socket to a new one.
+     * The reminders are on by default, while the server listens
+     */
+    api?: TodoApiOptions;
+    /** Milliseconds before a request the api does not answer, e.g. because of a timeout fault, gets a 504. Defaults to 30000 */
+    requestTimeout?: number;
+};
+
+type RouteRequest = {
+    /** The api acting for the user and the client given in the X-User-Id and X-Client-Id headers */
+    api: TodoApi;
+    /** The value of a parameter of the path, e.g. listId for /lists/:listId */
+    param: (name: string) => string;
+    query: URLSearchParams;
+    /** The parsed JSON body, undefined when there is none */
+    body: unknown;
+    rawBody: string;
+    /** Read from the X-Correlation-Id, Idempotency-Key and If-Match headers */
+    options: RequestOptions;
+};
+
+type Route = {
+    method: string;
+    pattern: RegExp;
+    paramNames: string[];
+    /** Status of a successful response */
+    status: number;
+    /** When set, the response is sent as is with this content type instead of as JSON */
+    contentType?: (request: RouteRequest) => string;
+    /** Whether the body is read as text, e.g. for an import, instead of JSON */
+    textBody?: boolean;
+    handle: (request: RouteRequest) => Promise<ApiResponseWrapper<unknown>>;
+};
+
+const MAX_BODY_SIZE = 10 * 1024 * 1024;
+const SOCKET_PATH = '/socket';
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-User-Id, X-Client-Id, X-Correlation-Id, Idempotency-Key, If-Match',
+};
+
+function exportContentType(format: string): string {
+    switch (format) {
+        case 'json':
+            return 'application/json';
+        case 'csv':
+            return 'text/csv';
+        case 'markdown':
+            return 'text/markdown';
+        default:
+            return 'text/plain';
+    }
+}
+
+function route(
+    method: string,
+    path: string,
+    handle: Route['handle'],
+    options: Partial<Pick<Route, 'status' | 'contentType' | 'textBody'>> = {},
+): Route {
+    const paramNames: string[] = [];
+    const pattern = path.replace(/:(\w+)/g, (_, name: string) => {
+        paramNames.push(name);
+        return '([^/]+)';
+    });
+    return { method, pattern: new RegExp(`^${pattern}$`), paramNames, status: 200, handle, ...options };
+}
+
+function bodyField(body: unknown, field: string): unknown {
+    return typeof body === 'object' && body !== null ? (body as Record<string, unknown>)[field] : undefined;
+}
+
+/**
+ * @returns The index, or a 422 error if it is not an integer
+ */
+function readIndex(body: unknown, field: string): number | ApiResponseError {
+    const index = bodyField(body, field);
+    if (typeof index !== 'number' || !Number.isInteger(index)) {
+        return buildValidationErrorResponse([{ field, message: 'must be an integer' }]);
+    }
+    return index;
+}
+
+function readTodoQuery(params: URLSearchParams): TodoQuery {
+    const query: TodoQuery = {};
+    (['listId', 'tag', 'assigneeId', 'dueFrom', 'dueTo', 'search', 'cursor'] as const).forEach((field) => {
+        const value = params.get(field);
+        if (value !== null) {
+            query[field] = value;
+        }
+    });
+    const done = params.get('done');
+    if (done !== null) {
+        query.done = done === 'true';
+    }
+    const sortBy = params.get('sortBy');
+    if (sortBy !== null) {
+        query.sortBy = sortBy as TodoSortField;
+    }
+    if (params.get('sortDirection') === 'desc') {
+        query.sortDirection = 'desc';
+    }
+    const limit = params.get('limit');
+    if (limit !== null) {
+        // An invalid limit is reported by the query validation
+        query.limit = Number(limit);
+    }
+    return query;
+}
+
+function updateList({ api, param, body, options }: RouteRequest): Promise<ApiResponseWrapper<unknown>> {
+    const listId = param('listId');
+    const name = bodyField(body, 'name');
+    const hasIndex = bodyField(body, 'index') !== undefined;
+    const destIndex = readIndex(body, 'index');
+    if (name === undefined && !hasIndex) {
+        return Promise.reject(buildValidationErrorResponse([{ field: 'name', message: 'name or index is required' }]));
+    }
+    if (hasIndex && typeof destIndex !== 'number') {
+        return Promise.reject(destIndex);
+    }
+    if (!hasIndex) {
+        return api.renameListById(listId, name as string, options);
+    }
+    if (name === undefined) {
+        return api.moveListById(listId, destIndex as number, options);
+    }
+    const rename: BatchOperation = { type: 'renameList', listId, name: name as string };
+    if (options.expectedVersion !== undefined) {
+        rename.expectedVersion = options.expectedVersion;
+    }
+    return api.batch([rename, { type: 'moveList', listId, destIndex: destIndex as number }], options);
+}
+
+function moveTodo({ api, param, body, options }: RouteRequest): Promise<ApiResponseWrapper<unknown>> {
+    const listId = param('listId');
+    const destListId = bodyField(body, 'listId') ?? listId;
+    const destIndex = readIndex(body, 'index');
+    if (typeof destIndex !== 'number') {
+        return Promise.reject(destIndex);
+    }
+    if (destListId === listId) {
+        return api.moveTodoById(listId, param('todoId'), destIndex, options);
+    }
+    return api.moveTodoToListById(listId, param('todoId'), destListId as string, destIndex, options);
+}
+
+function importData({ api, query, rawBody, options }: RouteRequest): Promise<ApiResponseWrapper<unknown>> {
+    const format = (query.get('format') ?? 'json') as DataFormat;
+    const mode = query.get('mode') ?? 'merge';
+    if (mode !== 'merge' && mode !== 'replace') {
+        return Promise.reject(buildValidationErrorResponse([{ field: 'mode', message: 'must be merge or replace' }]));
+    }
+    return api.importData(format, rawBody, { ...options, mode });
+}
+
+const ROUTES: Route[] = [
+    route('GET', '/users', ({ api }) => api.getUsers()),
+    route('GET', '/lists', ({ api }) => api.getTodoLists()),
+    route(
+        'POST',
+        '/lists',
+        ({ api, body, options }) => api.createListWithId(bodyField(body, 'name') as string, options),
+        { status: 201 },
+    ),
+    route('GET', '/lists/:listId', ({ api, param }) => api.getTodoList(param('listId'))),
+    route('PATCH', '/lists/:listId', updateList),
+    route('DELETE', '/lists/:listId', ({ api, param, options }) => api.deleteListById(param('listId'), options)),
+    route('PUT', '/lists/:listId/members', ({ api, param, body, options }) =>
+        api.setListMembers(param('listId'), body as ListMember[], options),
+    ),
+    route(
+        'POST',
+        '/lists/:listId/todos',
+        ({ api, param, body, options }) => api.addTodoById(param('listId'), body as TodoInput, options),
+        { status: 201 },
+    ),
+    route('PATCH', '/lists/:listId/todos/:todoId', ({ api, param, body, options }) =>
+        api.editTodoById(param('listId'), param('todoId'), body as TodoPatch, options),
+    ),
+    route('DELETE', '/lists/:listId/todos/:todoId', ({ api, param, options }) =>
+        api.removeTodoById(param('listId'), param('todoId'), options),
+    ),
+    route('POST', '/lists/:listId/todos/:todoId/move', moveTodo),
+    route('GET', '/todos', ({ api, query }) => api.queryTodos(readTodoQuery(query))),
+    route('POST', '/batch', ({ api, body, options }) => api.batch(body as BatchOperation[], options)),
+    route('POST', '/undo', ({ api, options }) => api.undo(options)),
+    route('POST', '/redo', ({ api, options }) => api.redo(options)),
+    route('GET', '/trash', ({ api }) => api.getTrash()),
+    route('POST', '/trash/lists/:listId/restore', ({ api, param, options }) =>
+        api.restoreList(param('listId'), options),
+    ),
+    route('POST', '/trash/todos/:todoId/restore', ({ api, param, options }) =>
+        api.restoreTodo(param('todoId'), options),
+    ),
+    route('GET', '/export', ({ api, query }) => api.exportData((query.get('format') ?? 'json') as DataFormat), {
+        contentType: ({ query }) => exportContentType(query.get('format') ?? 'json'),
+    }),
+    route('POST', '/import', importData, { textBody: true }),
+];
+
+function header(request: IncomingMessage, name: string): string | undefined {
+    const value = request.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * The HTTP status of an error: its code, unless it is not an HTTP error code
+ */
+function httpStatus(error: ApiResponseError): number {
+    const { code } = error.error;
+    return Number.isInteger(code) && code >= 400 && code < 600 ? code : 500;
+}
+
+/**
+ * @throws A 400 ApiResponseError if the parameter is not a valid percent-encoded string
+ */
+function decodePathParam(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch (e) {
+        throw buildErrorResponse(400, `malformed path parameter ${value}`);
+    }
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        request.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_SIZE) {
+                reject(buildErrorResponse(413, 'payload too large'));
+                request.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        request.on('error', () => reject(buildErrorResponse(400, 'could not read the body')));
+    });
+}
+
+/**
+ * Serves a TodoApi as REST routes, and its FakeSocket as a WebSocket, on localhost. Node only, exported from the node
+ * entry
+ *
+ * Responses have the shape of an ApiResponseWrapper, with the code of an ApiResponseError as HTTP status.
+ * The WebSocket endpoint is /socket: each SocketMessage is sent as a JSON text message. Its query accepts since, to
+ * replay the messages following a sequenceId, userId and clientId, see ListenerOptions. When messages to replay are
+ * no longer in the history, a { type: 'gap' } message carrying the SequenceGap is sent first
+ */
+class TodoServer {
+    readonly api: TodoApi;
+    readonly socket: FakeSocket;
+    private readonly port: number;
+    private readonly host: string;
+    private readonly requestTimeout: number;
+    private server: Server | undefined;
+    private connections: Set<WebSocketConnection>;
+    private readonly reminders: boolean;
+
+    constructor(options: TodoServerOptions) {
+        this.socket = options.api?.socket ?? createFakeSocket();
+        this.api = createTodoApi({
+            latency: 0,
+            storage: createFileStorage(options.dataFile ?? 'jamespot-todo.json'),
+            ...options.api,
+            socket: this.socket,
+            reminders: false,
+        });
+        this.reminders = options.api?.reminders ?? true;
+        this.port = options.port ?? 3000;
+        this.host = options.host ?? '127.0.0.1';
+        this.requestTimeout = options.requestTimeout ?? 30000;
+        this.server = undefined;
+        this.connections = new Set();
+    }
+
+    /**
+     * @returns The url of the server, e.g. http://127.0.0.1:3000
+     */
+    listen(): Promise<string> {
+        const server = createServer((request, response) => {
+            this.handle(request, response).catch(() => {
+                if (!response.headersSent) {
+                    this.sendJson(response, buildErrorResponse(500, 'internal error'));
+                } else {
+                    response.destroy();
+                }
+            });
+        });
+        server.on('upgrade', (request: IncomingMessage, socket: Duplex) => this.upgrade(request, socket));
+        this.server = server;
+        if (this.reminders) {
+            this.api.startReminders();
+        }
+        return new Promise((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.port, this.host, () => {
+                const address = server.address();
+                const port = typeof address === 'object' && address !== null ? address.port : this.port;
+                resolve(`http://${this.host}:${port}`);
+            });
+        });
+    }
+
+    /**
+     * Closes the WebSocket connections and stops accepting requests
+     */
+    close(): Promise<void> {
+        this.api.stopReminders();
+        this.connections.forEach((connection) => connection.close());
+        const server = this.server;
+        this.server = undefined;
+        return new Promise((resolve) => {
+            if (!server) {
+                resolve();
+                return;
+            }
+            server.close(() => resolve());
+        });
+    }
+
+    private async handle(request: IncomingMessage, response: ServerResponse) {
+        if (request.method === 'OPTIONS') {
+            response.writeHead(204, CORS_HEADERS);
+            response.end();
+            return;
+        }
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        const method = request.method ?? 'GET';
+        let matchedRoute: Route | undefined;
+        let match: RegExpExecArray | null = null;
+        for (const candidate of ROUTES) {
+            match = candidate.method === method ? candidate.pattern.exec(url.pathname) : null;
+            if (match) {
+                matchedRoute = candidate;
+                break;
+            }
+        }
+        if (!matchedRoute || !match) {
+            this.sendJson(response, buildErrorResponse(404, `unknown route ${method} ${url.pathname}`));
+            return;
+        }
+        const currentRoute = matchedRoute;
+        const encodedValues = match.slice(1);
+        try {
+            const values = encodedValues.map((value) => decodePathParam(value ?? ''));
+            const rawBody = await readBody(request);
+            const routeRequest: RouteRequest = {
+                api: this.apiFor(request),
+                param: (name) => values[currentRoute.paramNames.indexOf(name)] ?? '',
+                query: url.searchParams,
+                body: currentRoute.textBody ? undefined : this.parseBody(rawBody),
+                rawBody,
+                options: this.readOptions(request),
+            };
+            const result = await this.withTimeout(currentRoute.handle(routeRequest));
+            if ('error' in result) {
+                this.sendJson(response, result);
+            } else if (currentRoute.contentType) {
+                this.send(
+                    response,
+                    currentRoute.status,
+                    String(result.response),
+                    currentRoute.contentType(routeRequest),
+                );
+            } else {
+                this.sendJson(response, result, currentRoute.status);
+            }
+        } catch (e) {
+            this.sendJson(response, isApiResponseError(e) ? e : buildErrorResponse(500, 'internal error'));
+        }
+    }
+
+    /**
+     * A user without X-Client-Id gets a single session, named after them, so that their requests share an undo history
+     * and their idempotency keys
+     *
+     * @throws A 401 ApiResponseError if the user is unknown
+     */
+    private apiFor(request: IncomingMessage): TodoApi {
+        const userId = header(request, 'x-user-id');
+        const clientId = header(request, 'x-client-id');
+        if (userId !== undefined) {
+            try {
+                return this.api.asUser(userId, clientId ?? userId);
+            } catch (e) {
+                throw buildErrorResponse(401, `unknown user ${userId}`);
+            }
+        }
+        return clientId === undefined ? this.api : this.api.session(clientId);
+    }
+
+    /**
+     * @throws A 400 ApiResponseError if the body is not JSON
+     */
+    private parseBody(rawBody: string): unknown {
+        if (rawBody.trim() === '') {
+            return undefined;
+        }
+        try {
+            return JSON.parse(rawBody);
+        } catch (e) {
+            throw buildErrorResponse(400, 'invalid json body');
+        }
+    }
+
+    /**
+     * @throws A 400 ApiResponseError if the If-Match header is not a version
+     */
+    private readOptions(request: IncomingMessage): RequestOptions {
+        const options: RequestOptions = {};
+        const correlationId = header(request, 'x-correlation-id');
+        if (correlationId !== undefined) {
+            options.correlationId = correlationId;
+        }
+        const idempotencyKey = header(request, 'idempotency-key');
+        if (idempotencyKey !== undefined) {
+            options.idempotencyKey = idempotencyKey;
+        }
+        const ifMatch = header(request, 'if-match');
+        if (ifMatch !== undefined) {
+            const expectedVersion = Number(ifMatch.replace(/^W\//, '').replace(/"/g, ''));
+            if (!Number.isInteger(expectedVersion)) {
+                throw buildErrorResponse(400, 'If-Match must be a version');
+            }
+            options.expectedVersion = expectedVersion;
+        }
+        return options;
+    }
+
+    private withTimeout<T>(result: Promise<ApiResponseWrapper<T>>): Promise<ApiResponseWrapper<T>> {
+        return new Promise((resolve, reject) => {
+            const timer = this.api.scheduler.setTimeout(
+                () => resolve(buildErrorResponse(504, 'the api did not answer')),
+                this.requestTimeout,
+            );
+            result.then(
+                (value) => {
+                    this.api.scheduler.clearTimeout(timer);
+                    resolve(value);
+                },
+                (error: unknown) => {
+                    this.api.scheduler.clearTimeout(timer);
+                    reject(error);
+                },
+            );
+        });
+    }
+
+    private sendJson(response: ServerResponse, result: ApiResponseWrapper<unknown>, status = 200) {
+        this.send(
+            response,
+            'error' in result ? httpStatus(result) : status,
+            JSON.stringify(result),
+            'application/json',
+        );
+    }
+
+    private send(response: ServerResponse, status: number, body: string, contentType: string) {
+        response.writeHead(status, { ...CORS_HEADERS, 'Content-Type': `${contentType}; charset=utf-8` });
+        response.end(body);
+    }
+
+    private upgrade(request: IncomingMessage, socket: Duplex) {
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        if (url.pathname !== SOCKET_PATH) {
+            socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+            return;
+        }
+        const client: SocketClient = (message) => connection?.send(JSON.stringify(message));
+        const connection = acceptWebSocket(request, socket, () => {
+            this.socket.removeListener(client);
+            if (connection) {
+                this.connections.delete(connection);
+            }
+        });
+        if (!connection) {
+            return;
+        }
+        this.connections.add(connection);
+        const listenerOptions: ListenerOptions = {
+            onGap: (gap) => connection.send(JSON.stringify({ type: 'gap', ...gap })),
+        };
+        const since = Number(url.searchParams.get('since') ?? NaN);
+        if (Number.isInteger(since)) {
+            listenerOptions.sinceSequenceId = since;
+        }
+        const userId = url.searchParams.get('userId');
+        if (userId !== null) {
+            listenerOptions.userId = userId;
+        }
+        const clientId = url.searchParams.get('clientId');
+        if (clientId !== null) {
+            listenerOptions.clientId = clientId;
+            listenerOptions.skipOwnEchoes = url.searchParams.get('skipOwnEchoes') === 'true';
+        }
+        this.socket.addListener(client, listenerOptions);
+    }
+}
+
+/**
+ * Creates a server for the mobile and e2e suites, see TodoServer. Call listen to start it
+ */
+export function createTodoServer(options: TodoServerOptions = {}): TodoServer {
+    return new TodoServer(options);
+}
+
+export type { TodoServer };
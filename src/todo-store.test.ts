@@ -0,0 +1,168 @@
+import { createFakeSocket, FakeSocket, ListenerOptions, RawMessage, SocketClient } from './fake-socket';
+import { createVirtualScheduler, VirtualScheduler } from './scheduler';
+import { createTestApiWithList } from './test-helpers';
+import { ApiResponseWrapper, Todo, TodoApi, TodoList } from './todo-api';
+import { createTodoStore, TodoStore } from './todo-store';
+
+const TIMESTAMP = '2024-05-01T10:00:00.000Z';
+
+function buildTodo(id: string): Todo {
+    return { id, description: id, done: false, version: 1, createdAt: TIMESTAMP, updatedAt: TIMESTAMP };
+}
+
+function addTodoMessage(todoId: string): RawMessage {
+    return { type: 'addToDo', message: { listIndex: 0, listId: 'l1', listVersion: 1, item: buildTodo(todoId) } };
+}
+
+function itemIds(store: TodoStore): string[] | undefined {
+    return store.getState().lists[0]?.items.map((todo) => todo.id);
+}
+
+// Lets the pending promise callbacks run
+function flushPromises(): Promise<void> {
+    return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('TodoStore', () => {
+    let scheduler: VirtualScheduler;
+    let socket: FakeSocket;
+
+    beforeEach(() => {
+        scheduler = createVirtualScheduler();
+        socket = createFakeSocket({ scheduler });
+    });
+
+    describe('without api', () => {
+        let store: TodoStore;
+        // The listener of the store, to deliver the messages in any order
+        let deliver: (todoId: string, sequenceId: number) => void;
+        let listenerOptions: ListenerOptions;
+
+        beforeEach(() => {
+            const addListener = jest.spyOn(socket, 'addListener');
+            store = createTodoStore({ socket, scheduler, lists: [{ id: 'l1', name: 'List', version: 1, items: [] }] });
+            const [client, options] = addListener.mock.calls[0] as [SocketClient, ListenerOptions];
+            listenerOptions = options;
+            deliver = (todoId, sequenceId) => client({ ...addTodoMessage(todoId), sequenceId });
+        });
+
+        afterEach(() => {
+            store.close();
+        });
+
+        it('applies the messages in order, and notifies the listeners', () => {
+            const listener = jest.fn();
+            store.subscribe(listener);
+            deliver('t1', 1);
+            deliver('t2', 2);
+            expect(itemIds(store)).toEqual(['t1', 't2']);
+            expect(store.getState()).toMatchObject({ lastSequenceId: 2, status: 'synced' });
+            expect(listener).toHaveBeenCalledTimes(2);
+            expect(listener).toHaveBeenLastCalledWith(store.getState());
+        });
+
+        it('drops the duplicated messages', () => {
+            deliver('t1', 1);
+            const state = store.getState();
+            deliver('t1', 1);
+            expect(store.getState()).toBe(state);
+        });
+
+        it('waits for the messages delivered out of order', () => {
+            deliver('t3', 3);
+            deliver('t2', 2);
+            expect(itemIds(store)).toEqual([]);
+            deliver('t1', 1);
+            expect(itemIds(store)).toEqual(['t1', 't2', 't3']);
+            scheduler.runAll();
+            expect(store.getState()).toMatchObject({ lastSequenceId: 3, status: 'synced' });
+        });
+
+        it('reports a gap when a missing message does not arrive in time', () => {
+            deliver('t2', 2);
+            scheduler.advanceBy(199);
+            expect(store.getState().status).toBe('synced');
+            scheduler.advanceBy(1);
+            expect(store.getState().status).toBe('gap');
+            // The lists stay as they are until they are loaded again
+            deliver('t1', 1);
+            expect(itemIds(store)).toEqual([]);
+            store.load([{ id: 'l1', name: 'List', version: 1, items: [buildTodo('t1'), buildTodo('t2')] }]);
+            expect(store.getState().status).toBe('synced');
+        });
+
+        it('reports a gap when the socket lost messages', () => {
+            listenerOptions.onGap?.({ requestedSequenceId: 0, oldestAvailableSequenceId: 5 });
+            expect(store.getState().status).toBe('gap');
+        });
+    });
+
+    describe('with api', () => {
+        let api: TodoApi;
+        let listId: string;
+
+        beforeEach(async () => {
+            ({ api, listId } = await createTestApiWithList(scheduler, { socket, latency: 10 }));
+        });
+
+        it('loads the lists, then applies the messages', async () => {
+            const store = createTodoStore({ socket, scheduler, api });
+            expect(store.getState().status).toBe('loading');
+            scheduler.runAll();
+            await flushPromises();
+            expect(store.getState()).toMatchObject({ lists: [{ id: listId }], status: 'synced' });
+            const added = api.addTodoById(listId, { description: 'Milk', done: false });
+            scheduler.runAll();
+            await added;
+            expect(itemIds(store)).toHaveLength(1);
+            store.close();
+        });
+
+        it('applies the messages received while reloading, even when they are older than the loaded lists', async () => {
+            // The lists are read before the todo is added, and answered after its message is received
+            let answer: (result: ApiResponseWrapper<TodoList[]>) => void = () => undefined;
+            const read = api.getTodoLists();
+            scheduler.runAll();
+            const staleLists = await read;
+            jest.spyOn(api, 'getTodoLists').mockReturnValue(new Promise((resolve) => (answer = resolve)));
+            const store = createTodoStore({ socket, scheduler, api });
+            const added = api.addTodoById(listId, { description: 'Milk', done: false });
+            scheduler.runAll();
+            await added;
+            expect(store.getState().status).toBe('loading');
+            answer(staleLists);
+            await flushPromises();
+            expect(store.getState()).toMatchObject({ lastSequenceId: socket.lastSequenceId, status: 'synced' });
+            expect(itemIds(store)).toHaveLength(1);
+            store.close();
+        });
+
+        it('listens to the socket of the api when no socket is given', async () => {
+            const { api: ownApi, listId: ownListId } = await createTestApiWithList(scheduler, { latency: 10 });
+            const store = createTodoStore({ scheduler, api: ownApi });
+            scheduler.runAll();
+            await flushPromises();
+            const added = ownApi.addTodoById(ownListId, { description: 'Milk', done: false });
+            scheduler.runAll();
+            await added;
+            expect(itemIds(store)).toHaveLength(1);
+            store.close();
+        });
+
+        it('reloads the lists after a gap', async () => {
+            const addListener = jest.spyOn(socket, 'addListener');
+            const store = createTodoStore({ socket, scheduler, api });
+            const [, options] = addListener.mock.calls[0] as [SocketClient, ListenerOptions];
+            scheduler.runAll();
+            await flushPromises();
+            const getTodoLists = jest.spyOn(api, 'getTodoLists');
+            options.onGap?.({ requestedSequenceId: 0, oldestAvailableSequenceId: 2 });
+            expect(store.getState().status).toBe('loading');
+            expect(getTodoLists).toHaveBeenCalledTimes(1);
+            scheduler.runAll();
+            await flushPromises();
+            expect(store.getState().status).toBe('synced');
+            store.close();
+        });
+    });
+});
@@ -0,0 +1,239 @@
+import { buildErrorResponse, isApiResponseError } from './errors';
+import { FakeSocket, SocketClient, SocketMessage, socket as defaultSocket } from './fake-socket';
+import { realScheduler, Scheduler, TimerHandle } from './scheduler';
+import { ApiResponseWrapper, TodoApi, TodoList } from './todo-api';
+import { applySocketMessage } from './todo-reducer';
+
+/**
+ * loading: the lists are being loaded or reloaded from the api
+ * synced: every message since the lists were loaded has been applied
+ * gap: messages were missed, the lists may be stale until they are reloaded
+ */
+export type TodoStoreStatus = 'loading' | 'synced' | 'gap';
+
+export type TodoStoreState = {
+    lists: TodoList[];
+    /** The highest sequenceId applied to the lists */
+    lastSequenceId: number;
+    status: TodoStoreStatus;
+};
+
+export type TodoStoreOptions = {
+    /** Defaults to the socket of the api, or to the shared socket when there is no api */
+    socket?: FakeSocket;
+    /**
+     * Loads the lists, and reloads them when messages were missed. When it acts for a user, see TodoApi.asUser, the
+     * store only receives the messages they may see. Without api, a store that missed messages stays in the gap status
+     * until load is called
+     */
+    api?: TodoApi;
+    /** The lists to start from when there is no api, as of the last sequenceId of the socket. Defaults to none */
+    lists?: TodoList[];
+    /** Used to wait for the messages delivered out of order. Defaults to the real one */
+    scheduler?: Scheduler;
+    /**
+     * Milliseconds a message received before the previous ones waits for them, after which they are considered
+     * missed. Defaults to 200
+     */
+    gapTimeout?: number;
+};
+
+export type TodoStoreListener = (state: TodoStoreState) => void;
+
+// Number of sequenceIds remembered to drop the duplicated messages, when they may not be consecutive
+const MAX_SEEN_SEQUENCE_IDS = 1000;
+
+/**
+ * The lists, kept in sync with the socket messages through applySocketMessage. Each change replaces the state, so
+ * that it can be compared by reference, e.g. with useSyncExternalStore.
+ * A store receiving every message detects the missed ones from the holes in the sequenceIds. A store receiving the
+ * messages of a user only relies on the gaps reported by the socket, as the messages of the others leave holes
+ */
+class TodoStore {
+    private state: TodoStoreState;
+    private listeners: TodoStoreListener[];
+    private readonly socket: FakeSocket;
+    private readonly api: TodoApi | undefined;
+    private readonly scheduler: Scheduler;
+    private readonly gapTimeout: number;
+    // Received before the messages preceding them, by sequenceId
+    private pendingMessages: Map<number, SocketMessage>;
+    private gapTimer: TimerHandle | undefined;
+    // Received while loading, applied once the lists are loaded
+    private bufferedMessages: SocketMessage[] | undefined;
+    private seenSequenceIds: Set<number>;
+    // Whether the socket only delivers the messages of the user of the api
+    private readonly filtered: boolean;
+    private readonly onMessage: SocketClient;
+
+    constructor(options: TodoStoreOptions) {
+        this.socket = options.socket ?? options.api?.socket ?? defaultSocket;
+        this.api = options.api;
+        this.scheduler = options.scheduler ?? realScheduler;
+        this.gapTimeout = options.gapTimeout ?? 200;
+        this.listeners = [];
+        this.pendingMessages = new Map();
+        this.gapTimer = undefined;
+        this.bufferedMessages = undefined;
+        this.seenSequenceIds = new Set();
+        this.filtered = this.api?.userId !== undefined;
+        this.state = {
+            lists: options.lists ?? [],
+            lastSequenceId: this.socket.lastSequenceId,
+            status: this.api ? 'loading' : 'synced',
+        };
+        this.onMessage = (message) => this.receive(message);
+        this.socket.addListener(this.onMessage, {
+            onGap: () => this.handleGap(),
+            ...(this.api?.userId !== undefined && { userId: this.api.userId }),
+        });
+        if (this.api) {
+            void this.reload();
+        }
+    }
+
+    getState(): TodoStoreState {
+        return this.state;
+    }
+
+    /**
+     * @param listener Called with the new state after each change
+     * @returns A function removing the listener
+     */
+    subscribe(listener: TodoStoreListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter((otherListener) => otherListener !== listener);
+        };
+    }
+
+    /**
+     * Replaces the lists by lists loaded as of the last sequenceId of the socket, e.g. after a gap
+     */
+    load(lists: TodoList[]) {
+        this.clearPending();
+        this.seenSequenceIds.clear();
+        this.setState({ lists, lastSequenceId: this.socket.lastSequenceId, status: 'synced' });
+    }
+
+    /**
+     * Loads the lists from the api. The messages received meanwhile are applied once they are loaded
+     */
+    async reload(): Promise<ApiResponseWrapper<boolean>> {
+        if (!this.api) {
+            return buildErrorResponse(400, 'no api to reload from');
+        }
+        this.clearPending();
+        this.bufferedMessages = this.bufferedMessages ?? [];
+        this.setState({ ...this.state, status: 'loading' });
+        const result = await this.api
+            .getTodoLists()
+            .catch((error: unknown) => (isApiResponseError(error) ? error : buildErrorResponse(500, 'internal error')));
+        const bufferedMessages = this.bufferedMessages ?? [];
+        this.bufferedMessages = undefined;
+        if ('error' in result) {
+            this.setState({ ...this.state, status: 'gap' });
+            return result;
+        }
+        this.load(result.response);
+        // The messages received meanwhile may or may not be included in the loaded lists, whatever their sequenceId:
+        // applying them again is harmless, while dropping them would lose the changes made after the lists were read
+        bufferedMessages.forEach((message) => {
+            if (message.sequenceId <= this.state.lastSequenceId) {
+                this.apply(message);
+            } else {
+                this.receive(message);
+            }
+        });
+        return { response: true };
+    }
+
+    /**
+     * Stops listening to the socket
+     */
+    close() {
+        this.socket.removeListener(this.onMessage);
+        this.clearPending();
+        this.listeners = [];
+    }
+
+    private receive(message: SocketMessage) {
+        if (this.bufferedMessages) {
+            this.bufferedMessages.push(message);
+            return;
+        }
+        // The lists stay as they are until they are reloaded
+        if (this.state.status === 'gap') {
+            return;
+        }
+        if (this.filtered) {
+            if (!this.seenSequenceIds.has(message.sequenceId)) {
+                this.apply(message);
+            }
+            return;
+        }
+        const { lastSequenceId } = this.state;
+        if (message.sequenceId <= lastSequenceId) {
+            return;
+        }
+        if (message.sequenceId > lastSequenceId + 1) {
+            this.pendingMessages.set(message.sequenceId, message);
+            if (this.gapTimer === undefined) {
+                this.gapTimer = this.scheduler.setTimeout(() => this.handleGap(), this.gapTimeout);
+            }
+            return;
+        }
+        this.apply(message);
+        let nextMessage = this.pendingMessages.get(this.state.lastSequenceId + 1);
+        while (nextMessage) {
+            this.pendingMessages.delete(nextMessage.sequenceId);
+            this.apply(nextMessage);
+            nextMessage = this.pendingMessages.get(this.state.lastSequenceId + 1);
+        }
+        if (this.pendingMessages.size === 0) {
+            this.clearPending();
+        }
+    }
+
+    private apply(message: SocketMessage) {
+        if (this.filtered) {
+            this.seenSequenceIds.add(message.sequenceId);
+            if (this.seenSequenceIds.size > MAX_SEEN_SEQUENCE_IDS) {
+                this.seenSequenceIds.delete(this.seenSequenceIds.values().next().value);
+            }
+        }
+        this.setState({
+            ...this.state,
+            lists: applySocketMessage(this.state.lists, message, this.api?.userId),
+            lastSequenceId: Math.max(this.state.lastSequenceId, message.sequenceId),
+        });
+    }
+
+    private handleGap() {
+        this.clearPending();
+        if (this.api) {
+            void this.reload();
+        } else {
+            this.setState({ ...this.state, status: 'gap' });
+        }
+    }
+
+    private clearPending() {
+        this.pendingMessages.clear();
+        if (this.gapTimer !== undefined) {
+            this.scheduler.clearTimeout(this.gapTimer);
+            this.gapTimer = undefined;
+        }
+    }
+
+    private setState(state: TodoStoreState) {
+        this.state = state;
+        this.listeners.forEach((listener) => listener(state));
+    }
+}
+
+export function createTodoStore(options: TodoStoreOptions = {}): TodoStore {
+    return new TodoStore(options);
+}
+
+export type { TodoStore };
@@ -0,0 +1,46 @@
+import { MAX_TODO_DESCRIPTION_LENGTH, validateTodoInput, validateTodoPatch } from './validation';
+
+describe('validateTodoInput', () => {
+    it('accepts a complete todo', () => {
+        const todo = {
+            description: 'Milk',
+            done: false,
+            dueDate: '2024-05-02',
+            priority: 'high',
+            tags: ['dairy'],
+            notes: 'Semi-skimmed',
+        };
+        expect(validateTodoInput(todo)).toEqual([]);
+    });
+
+    it('lists every failing field, prefixed with the path', () => {
+        const todo = { description: 'x'.repeat(MAX_TODO_DESCRIPTION_LENGTH + 1), priority: 'urgent', tags: [1] };
+        expect(validateTodoInput(todo, 'items[2]')).toEqual([
+            {
+                field: 'items[2].description',
+                message: `must be at most ${MAX_TODO_DESCRIPTION_LENGTH} characters long`,
+            },
+            { field: 'items[2].done', message: 'is required' },
+            { field: 'items[2].priority', message: 'must be one of low, medium, high' },
+            { field: 'items[2].tags[0]', message: 'must be a string of at most 50 characters' },
+        ]);
+    });
+
+    it('rejects a payload that is not an object', () => {
+        expect(validateTodoInput(['Milk'])).toEqual([{ field: 'item', message: 'must be an object' }]);
+        expect(validateTodoInput(null, 'items[0]')).toEqual([{ field: 'items[0]', message: 'must be an object' }]);
+    });
+});
+
+describe('validateTodoPatch', () => {
+    it('accepts a partial todo, and null to remove an optional field', () => {
+        expect(validateTodoPatch({ done: true, dueDate: null })).toEqual([]);
+    });
+
+    it('still checks the fields that are given', () => {
+        expect(validateTodoPatch({ description: null, dueDate: '2024-13-45' })).toEqual([
+            { field: 'description', message: 'must be a string' },
+            { field: 'dueDate', message: 'must be an ISO 8601 date' },
+        ]);
+    });
+});
@@ -0,0 +1,274 @@
+export const MAX_LIST_NAME_LENGTH = 100;
+export const MAX_TODO_DESCRIPTION_LENGTH = 500;
+export const MAX_TODO_NOTES_LENGTH = 5000;
+export const MAX_TODO_TAGS = 20;
+export const MAX_TAG_LENGTH = 50;
+export const TODO_PRIORITIES = ['low', 'medium', 'high'] as const;
+export const LIST_ROLES = ['read', 'write'] as const;
+export const RECURRENCE_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const;
+
+/**
+ * A field of a payload that failed validation, e.g. { field: 'items[2].done', message: 'must be a boolean' }
+ */
+export type FieldError = {
+    field: string;
+    message: string;
+};
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fieldPath(path: string, field: string): string {
+    return path ? `${path}.${field}` : field;
+}
+
+function checkString(fields: Fields, path: string, field: string, maxLength: number): FieldError[] {
+    const value = fields[field];
+    if (value === undefined) {
+        return [{ field: fieldPath(path, field), message: 'is required' }];
+    }
+    if (typeof value !== 'string') {
+        return [{ field: fieldPath(path, field), message: 'must be a string' }];
+    }
+    if (value.length > maxLength) {
+        return [{ field: fieldPath(path, field), message: `must be at most ${maxLength} characters long` }];
+    }
+    return [];
+}
+
+function checkType(fields: Fields, path: string, field: string, type: 'boolean' | 'number' | 'string'): FieldError[] {
+    const value = fields[field];
+    if (value === undefined) {
+        return [{ field: fieldPath(path, field), message: 'is required' }];
+    }
+    if (typeof value !== type) {
+        return [{ field: fieldPath(path, field), message: `must be a ${type}` }];
+    }
+    return [];
+}
+
+function checkDate(fields: Fields, path: string, field: string): FieldError[] {
+    const value = fields[field];
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        return [{ field: fieldPath(path, field), message: 'must be an ISO 8601 date' }];
+    }
+    return [];
+}
+
+function checkPriority(fields: Fields, path: string): FieldError[] {
+    if (!(TODO_PRIORITIES as readonly unknown[]).includes(fields['priority'])) {
+        return [{ field: fieldPath(path, 'priority'), message: `must be one of ${TODO_PRIORITIES.join(', ')}` }];
+    }
+    return [];
+}
+
+function checkTags(fields: Fields, path: string): FieldError[] {
+    const tags = fields['tags'];
+    if (!Array.isArray(tags)) {
+        return [{ field: fieldPath(path, 'tags'), message: 'must be an array' }];
+    }
+    if (tags.length > MAX_TODO_TAGS) {
+        return [{ field: fieldPath(path, 'tags'), message: `must contain at most ${MAX_TODO_TAGS} tags` }];
+    }
+    return tags.flatMap((tag, index) => {
+        if (typeof tag !== 'string' || tag.length > MAX_TAG_LENGTH) {
+            const message = `must be a string of at most ${MAX_TAG_LENGTH} characters`;
+            return [{ field: fieldPath(path, `tags[${index}]`), message }];
+        }
+        return [];
+    });
+}
+
+function checkRecurrence(fields: Fields, path: string): FieldError[] {
+    const recurrence = fields['recurrence'];
+    const recurrencePath = fieldPath(path, 'recurrence');
+    if (!isObject(recurrence)) {
+        return [{ field: recurrencePath, message: 'must be an object' }];
+    }
+    const errors: FieldError[] = [];
+    if (!(RECURRENCE_FREQUENCIES as readonly unknown[]).includes(recurrence['frequency'])) {
+        const message = `must be one of ${RECURRENCE_FREQUENCIES.join(', ')}`;
+        errors.push({ field: fieldPath(recurrencePath, 'frequency'), message });
+    }
+    const interval = recurrence['interval'];
+    if (interval !== undefined && (typeof interval !== 'number' || !Number.isInteger(interval) || interval < 1)) {
+        errors.push({ field: fieldPath(recurrencePath, 'interval'), message: 'must be a positive integer' });
+    }
+    return errors;
+}
+
+/**
+ * Checks the optional fields of a todo that are present
+ *
+ * @param nullable Whether null is accepted, to remove the field in a patch
+ */
+function checkOptionalFields(value: Fields, path: string, nullable: boolean): FieldError[] {
+    const present = (field: string) => value[field] !== undefined && !(nullable && value[field] === null);
+    return [
+        ...(present('dueDate') ? checkDate(value, path, 'dueDate') : []),
+        ...(present('priority') ? checkPriority(value, path) : []),
+        ...(present('tags') ? checkTags(value, path) : []),
+        ...(present('notes') ? checkString(value, path, 'notes', MAX_TODO_NOTES_LENGTH) : []),
+        ...(present('assigneeId') ? checkType(value, path, 'assigneeId', 'string') : []),
+        ...(present('remindAt') ? checkDate(value, path, 'remindAt') : []),
+        ...(present('recurrence') ? checkRecurrence(value, path) : []),
+    ];
+}
+
+/**
+ * Validates a todo sent by a client
+ *
+ * @param value The payload to validate
+ * @param path Prefix of the field names in the errors
+ * @returns The failing fields, empty if the payload is valid
+ */
+export function validateTodoInput(value: unknown, path = ''): FieldError[] {
+    if (!isObject(value)) {
+        return [{ field: path || 'item', message: 'must be an object' }];
+    }
+    return [
+        ...checkString(value, path, 'description', MAX_TODO_DESCRIPTION_LENGTH),
+        ...checkType(value, path, 'done', 'boolean'),
+        ...checkOptionalFields(value, path, false),
+    ];
+}
+
+/**
+ * Validates a partial update of a todo: every field is optional, null removes an optional field
+ */
+export function validateTodoPatch(value: unknown): FieldError[] {
+    if (!isObject(value)) {
+        return [{ field: 'patch', message: 'must be an object' }];
+    }
+    return [
+        ...(value['description'] !== undefined
+            ? checkString(value, '', 'description', MAX_TODO_DESCRIPTION_LENGTH)
+            : []),
+        ...(value['done'] !== undefined ? checkType(value, '', 'done', 'boolean') : []),
+        ...checkOptionalFields(value, '', true),
+    ];
+}
+
+/**
+ * Validates the operations of a batch: each one must be an object with a type. Their other fields are checked when
+ * they are applied
+ */
+export function validateBatchOperations(value: unknown): FieldError[] {
+    if (!Array.isArray(value)) {
+        return [{ field: 'operations', message: 'must be an array' }];
+    }
+    return value.flatMap((operation: unknown, index) => {
+        const path = `operations[${index}]`;
+        if (!isObject(operation)) {
+            return [{ field: path, message: 'must be an object' }];
+        }
+        return checkType(operation, path, 'type', 'string');
+    });
+}
+
+export function validateListName(value: unknown): FieldError[] {
+    return checkString({ name: value }, '', 'name', MAX_LIST_NAME_LENGTH);
+}
+
+/**
+ * Validates a list as persisted by the api, with its ids and versions
+ */
+export function validateTodoList(value: unknown, path = ''): FieldError[] {
+    if (!isObject(value)) {
+        return [{ field: path || 'list', message: 'must be an object' }];
+    }
+    const errors = [
+        ...checkType(value, path, 'id', 'string'),
+        ...checkString(value, path, 'name', MAX_LIST_NAME_LENGTH),
+        ...checkType(value, path, 'version', 'number'),
+        ...(value['ownerId'] !== undefined ? checkType(value, path, 'ownerId', 'string') : []),
+        ...(value['members'] !== undefined ? validateListMembers(value['members'], fieldPath(path, 'members')) : []),
+    ];
+    const items = value['items'];
+    if (!Array.isArray(items)) {
+        return [...errors, { field: fieldPath(path, 'items'), message: 'must be an array' }];
+    }
+    items.forEach((item, index) => errors.push(...validatePersistedTodo(item, fieldPath(path, `items[${index}]`))));
+    return errors;
+}
+
+/**
+ * Validates the members of a list: each user appears once, with a known role
+ */
+export function validateListMembers(value: unknown, path = 'members'): FieldError[] {
+    if (!Array.isArray(value)) {
+        return [{ field: path, message: 'must be an array' }];
+    }
+    return value.flatMap((member: unknown, index) => {
+        const memberPath = `${path}[${index}]`;
+        if (!isObject(member)) {
+            return [{ field: memberPath, message: 'must be an object' }];
+        }
+        const errors = checkType(member, memberPath, 'userId', 'string');
+        if (!(LIST_ROLES as readonly unknown[]).includes(member['role'])) {
+            errors.push({ field: fieldPath(memberPath, 'role'), message: `must be one of ${LIST_ROLES.join(', ')}` });
+        }
+        if (value.slice(0, index).some((previous) => isObject(previous) && previous['userId'] === member['userId'])) {
+            errors.push({ field: fieldPath(memberPath, 'userId'), message: 'is already a member' });
+        }
+        return errors;
+    });
+}
+
+function validatePersistedTodo(value: unknown, path: string): FieldError[] {
+    const errors = validateTodoInput(value, path);
+    if (isObject(value)) {
+        errors.push(
+            ...checkType(value, path, 'id', 'string'),
+            ...checkType(value, path, 'version', 'number'),
+            ...checkDate(value, path, 'createdAt'),
+            ...checkDate(value, path, 'updatedAt'),
+            ...(value['completedAt'] !== undefined ? checkDate(value, path, 'completedAt') : []),
+        );
+    }
+    return errors;
+}
+
+function validateTrashEntries(
+    value: Fields,
+    path: string,
+    field: string,
+    validateEntry: (entry: Fields, entryPath: string) => FieldError[],
+): FieldError[] {
+    const entries = value[field];
+    if (!Array.isArray(entries)) {
+        return [{ field: fieldPath(path, field), message: 'must be an array' }];
+    }
+    return entries.flatMap((entry, index) => {
+        const entryPath = fieldPath(path, `${field}[${index}]`);
+        if (!isObject(entry)) {
+            return [{ field: entryPath, message: 'must be an object' }];
+        }
+        return [
+            ...validateEntry(entry, entryPath),
+            ...checkType(entry, entryPath, 'index', 'number'),
+            ...checkDate(entry, entryPath, 'deletedAt'),
+        ];
+    });
+}
+
+/**
+ * Validates the deleted lists and todos as persisted by the api
+ */
+export function validateTrash(value: unknown, path = ''): FieldError[] {
+    if (!isObject(value)) {
+        return [{ field: path || 'trash', message: 'must be an object' }];
+    }
+    return [
+        ...validateTrashEntries(value, path, 'lists', (entry, entryPath) =>
+            validateTodoList(entry['list'], fieldPath(entryPath, 'list')),
+        ),
+        ...validateTrashEntries(value, path, 'todos', (entry, entryPath) => [
+            ...validatePersistedTodo(entry['todo'], fieldPath(entryPath, 'todo')),
+            ...checkType(entry, entryPath, 'listId', 'string'),
+        ]),
+    ];
+}
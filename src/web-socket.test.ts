@@ -0,0 +1,131 @@
+import type { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { acceptWebSocket, WebSocketConnection } from './web-socket';
+
+/**
+ * The server end of a connection, recording what the server writes
+ */
+class TestSocket extends Duplex {
+    written: Buffer[];
+
+    constructor() {
+        super();
+        this.written = [];
+    }
+
+    _read() {
+        // The data of the client is emitted by the tests
+    }
+
+    _write(chunk: Buffer | string, _encoding: BufferEncoding, callback: () => void) {
+        this.written.push(Buffer.from(chunk));
+        callback();
+    }
+}
+
+function upgradeRequest(headers: Record<string, string>): IncomingMessage {
+    return { headers } as unknown as IncomingMessage;
+}
+
+/**
+ * Encodes a frame as a client does: masked
+ */
+function clientFrame(opcode: number, payload: Buffer): Buffer {
+    const mask = Buffer.from([0x12, 0x34, 0x56, 0x78]);
+    const masked = Buffer.from(payload.map((byte, index) => byte ^ (mask[index % 4] ?? 0)));
+    let header: Buffer;
+    if (payload.length < 126) {
+        header = Buffer.from([0x80 | opcode, 0x80 | payload.length]);
+    } else {
+        header = Buffer.from([0x80 | opcode, 0x80 | 126, payload.length >> 8, payload.length & 0xff]);
+    }
+    return Buffer.concat([header, mask, masked]);
+}
+
+/**
+ * Reads an unmasked frame as a client does
+ */
+function readServerFrame(frame: Buffer): { fin: boolean; opcode: number; payload: Buffer } {
+    let length = (frame[1] ?? 0) & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+        length = frame.readUInt16BE(2);
+        offset = 4;
+    } else if (length === 127) {
+        length = frame.readUInt32BE(2) * 2 ** 32 + frame.readUInt32BE(6);
+        offset = 10;
+    }
+    expect((frame[1] ?? 0) & 0x80).toBe(0);
+    expect(frame.length).toBe(offset + length);
+    return { fin: ((frame[0] ?? 0) & 0x80) !== 0, opcode: (frame[0] ?? 0) & 0x0f, payload: frame.slice(offset) };
+}
+
+describe('acceptWebSocket', () => {
+    let socket: TestSocket;
+    let onClose: jest.Mock;
+    let connection: WebSocketConnection | undefined;
+
+    beforeEach(() => {
+        socket = new TestSocket();
+        onClose = jest.fn();
+        // The key and accept value of the example of RFC 6455
+        connection = acceptWebSocket(
+            upgradeRequest({ upgrade: 'websocket', 'sec-websocket-key': 'dGhlIHNhbXBsZSBub25jZQ==' }),
+            socket,
+            onClose,
+        );
+    });
+
+    it('answers the handshake', () => {
+        expect(connection).toBeDefined();
+        expect(socket.written[0]?.toString()).toContain('Sec-WebSocket-Accept: s3pPLMBiTxaQ9kYGzzhZRbK+xOo=\r\n');
+    });
+
+    it('answers a 400 to a request that is not a handshake', () => {
+        const otherSocket = new TestSocket();
+        expect(acceptWebSocket(upgradeRequest({}), otherSocket, jest.fn())).toBeUndefined();
+        expect(otherSocket.written[0]?.toString()).toMatch(/^HTTP\/1.1 400 Bad Request/);
+    });
+
+    it.each([
+        ['short', 5],
+        ['16 bit length', 300],
+        ['64 bit length', 70000],
+    ])('sends the text messages as single unmasked frames, %s', (_name, length) => {
+        const text = 'é'.repeat(Math.floor(length / 2)) + 'a'.repeat(length % 2);
+        connection?.send(text);
+        const frame = readServerFrame(socket.written[1] ?? Buffer.alloc(0));
+        expect(frame).toMatchObject({ fin: true, opcode: 0x1 });
+        expect(frame.payload.length).toBe(length);
+        expect(frame.payload.toString('utf8')).toBe(text);
+    });
+
+    it('answers the pings of the client, even split across several chunks', () => {
+        const ping = clientFrame(0x9, Buffer.from('hello'));
+        socket.emit('data', ping.slice(0, 3));
+        expect(socket.written).toHaveLength(1);
+        socket.emit('data', ping.slice(3));
+        expect(readServerFrame(socket.written[1] ?? Buffer.alloc(0))).toMatchObject({
+            opcode: 0xa,
+            payload: Buffer.from('hello'),
+        });
+    });
+
+    it('decodes the frames received in the same chunk', () => {
+        const longPing = Buffer.alloc(200, 'x');
+        socket.emit('data', Buffer.concat([clientFrame(0x9, Buffer.from('a')), clientFrame(0x9, longPing)]));
+        expect(socket.written.slice(1).map((frame) => readServerFrame(frame).payload)).toEqual([
+            Buffer.from('a'),
+            longPing,
+        ]);
+    });
+
+    it('answers the close of the client, then stops sending', () => {
+        socket.emit('data', clientFrame(0x8, Buffer.alloc(0)));
+        expect(onClose).toHaveBeenCalledTimes(1);
+        connection?.send('ignored');
+        connection?.close();
+        expect(onClose).toHaveBeenCalledTimes(1);
+        expect(socket.written.slice(1).map((frame) => readServerFrame(frame).opcode)).toEqual([0x8]);
+    });
+});
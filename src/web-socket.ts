@@ -0,0 +1,152 @@
+import { createHash } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+
+// Appended to the key of the client to compute the accept header, see RFC 6455
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/**
+ * The server side of an open WebSocket. Only text messages are sent, the messages of the client are ignored
+ */
+export type WebSocketConnection = {
+    send: (text: string) => void;
+    close: () => void;
+};
+
+type Frame = {
+    opcode: number;
+    payload: Buffer;
+    /** Number of bytes of the frame, header included */
+    size: number;
+};
+
+/**
+ * Encodes a single, final frame. Frames sent by a server are not masked
+ */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+    let header: Buffer;
+    if (payload.length < 126) {
+        header = Buffer.alloc(2);
+        header.writeUInt8(payload.length, 1);
+    } else if (payload.length < 65536) {
+        header = Buffer.alloc(4);
+        header.writeUInt8(126, 1);
+        header.writeUInt16BE(payload.length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header.writeUInt8(127, 1);
+        header.writeUInt32BE(Math.floor(payload.length / 2 ** 32), 2);
+        header.writeUInt32BE(payload.length % 2 ** 32, 6);
+    }
+    header.writeUInt8(0x80 | opcode, 0);
+    return Buffer.concat([header, payload]);
+}
+
+/**
+ * @returns The first frame of the buffer, undefined until it is fully received
+ */
+function decodeFrame(buffer: Buffer): Frame | undefined {
+    if (buffer.length < 2) {
+        return undefined;
+    }
+    const opcode = buffer.readUInt8(0) & 0x0f;
+    const masked = (buffer.readUInt8(1) & 0x80) !== 0;
+    let length = buffer.readUInt8(1) & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+        if (buffer.length < 4) {
+            return undefined;
+        }
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+    } else if (length === 127) {
+        if (buffer.length < 10) {
+            return undefined;
+        }
+        length = buffer.readUInt32BE(2) * 2 ** 32 + buffer.readUInt32BE(6);
+        offset = 10;
+    }
+    const maskOffset = offset;
+    offset += masked ? 4 : 0;
+    if (buffer.length < offset + length) {
+        return undefined;
+    }
+    const payload = Buffer.from(buffer.slice(offset, offset + length));
+    if (masked) {
+        for (let index = 0; index < payload.length; index++) {
+            payload.writeUInt8(payload.readUInt8(index) ^ buffer.readUInt8(maskOffset + (index % 4)), index);
+        }
+    }
+    return { opcode, payload, size: offset + length };
+}
+
+/**
+ * Answers the handshake of an upgrade request, following RFC 6455. Node only: crypto is required when a connection is
+ * accepted
+ *
+ * @param onClose Called once, when the client or the server closes the connection
+ * @returns The connection, undefined if the request is not a valid WebSocket handshake: a 400 is then answered
+ */
+export function acceptWebSocket(
+    request: IncomingMessage,
+    socket: Duplex,
+    onClose: () => void,
+): WebSocketConnection | undefined {
+    const key = request.headers['sec-websocket-key'];
+    if (typeof key !== 'string' || request.headers.upgrade?.toLowerCase() !== 'websocket') {
+        socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+        return undefined;
+    }
+    const accept = createHash('sha1').update(`${key}${HANDSHAKE_GUID}`).digest('base64');
+    socket.write(
+        [
+            'HTTP/1.1 101 Switching Protocols',
+            'Upgrade: websocket',
+            'Connection: Upgrade',
+            `Sec-WebSocket-Accept: ${accept}`,
+            '',
+            '',
+        ].join('\r\n'),
+    );
+    let closed = false;
+    let received = Buffer.alloc(0);
+    const markClosed = () => {
+        if (!closed) {
+            closed = true;
+            onClose();
+        }
+    };
+    const close = () => {
+        if (!closed) {
+            socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+            markClosed();
+        }
+    };
+    socket.on('data', (data: Buffer) => {
+        received = Buffer.concat([received, data]);
+        let frame = decodeFrame(received);
+        while (frame && !closed) {
+            received = received.slice(frame.size);
+            if (frame.opcode === OPCODE_CLOSE) {
+                close();
+            } else if (frame.opcode === OPCODE_PING) {
+                socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+            }
+            frame = decodeFrame(received);
+        }
+    });
+    socket.on('close', markClosed);
+    socket.on('error', () => socket.destroy());
+    return {
+        send: (text) => {
+            if (!closed) {
+                socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+            }
+        },
+        close,
+    };
+}